@@ -0,0 +1,20 @@
+-- Migration: Cache song.link lookups
+-- Resolved responses, one row per song.link entity
+CREATE TABLE IF NOT EXISTS songlink_responses (
+    entity_unique_id TEXT PRIMARY KEY,
+    response TEXT NOT NULL,
+    fetched_at TEXT NOT NULL DEFAULT (datetime('now')),
+    expires_at TEXT NOT NULL
+);
+
+-- Lookup keys (normalized URLs and platform entity ids) pointing at a
+-- response. Failed lookups have a NULL entity_unique_id and the HTTP status.
+CREATE TABLE IF NOT EXISTS songlink_lookups (
+    lookup_key TEXT PRIMARY KEY,
+    entity_unique_id TEXT,
+    status INTEGER NOT NULL,
+    expires_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_songlink_lookups_entity ON songlink_lookups(entity_unique_id);
+CREATE INDEX IF NOT EXISTS idx_songlink_responses_expires_at ON songlink_responses(expires_at);
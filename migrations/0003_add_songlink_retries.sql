@@ -0,0 +1,16 @@
+-- Migration: Retry failed song.link lookups
+-- Shares whose lookup failed are stored as 'pending' until a retry resolves
+-- them, or 'failed' once retries run out
+ALTER TABLE shared_songs ADD COLUMN status TEXT NOT NULL DEFAULT 'resolved';
+
+CREATE TABLE IF NOT EXISTS songlink_retries (
+    share_id INTEGER PRIMARY KEY REFERENCES shared_songs(id) ON DELETE CASCADE,
+    reply_ts TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_status INTEGER,
+    next_attempt_at TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_shared_songs_status ON shared_songs(status);
+CREATE INDEX IF NOT EXISTS idx_songlink_retries_next_attempt_at ON songlink_retries(next_attempt_at);
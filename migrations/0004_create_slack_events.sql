@@ -0,0 +1,9 @@
+-- Migration: Remember delivered Slack event ids so retried deliveries
+-- aren't processed twice
+CREATE TABLE IF NOT EXISTS slack_events (
+    event_id TEXT PRIMARY KEY,
+    received_at TEXT NOT NULL DEFAULT (datetime('now')),
+    expires_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_slack_events_expires_at ON slack_events(expires_at);
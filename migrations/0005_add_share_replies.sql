@@ -0,0 +1,12 @@
+-- Migration: Track the bot's reply to each share, and deleted shares
+ALTER TABLE shared_songs ADD COLUMN reply_ts TEXT;
+ALTER TABLE shared_songs ADD COLUMN deleted_at TEXT;
+
+-- Replies to pending shares were tracked on the retry; move them to the share
+UPDATE shared_songs
+SET reply_ts = (SELECT reply_ts FROM songlink_retries WHERE share_id = shared_songs.id)
+WHERE id IN (SELECT share_id FROM songlink_retries);
+
+ALTER TABLE songlink_retries DROP COLUMN reply_ts;
+
+CREATE INDEX IF NOT EXISTS idx_shared_songs_message ON shared_songs(channel, message_ts);
@@ -0,0 +1,12 @@
+-- Migration: Detect songs that have been shared before
+-- song.link entity id, so the same song shared from different platforms matches
+ALTER TABLE shared_songs ADD COLUMN entity_unique_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_shared_songs_entity ON shared_songs(channel, entity_unique_id);
+
+-- Per-channel behaviour; channels without a row use the column defaults
+CREATE TABLE IF NOT EXISTS channel_settings (
+    channel TEXT PRIMARY KEY,
+    show_duplicates INTEGER NOT NULL DEFAULT 1,
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
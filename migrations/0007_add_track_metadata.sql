@@ -0,0 +1,15 @@
+-- Migration: Structured track metadata on shared_songs
+-- Existing rows are filled in by scripts/enrich.ts
+ALTER TABLE shared_songs ADD COLUMN artist TEXT;
+ALTER TABLE shared_songs ADD COLUMN track_title TEXT;
+ALTER TABLE shared_songs ADD COLUMN album TEXT;
+-- song.link entity type: 'song' or 'album'
+ALTER TABLE shared_songs ADD COLUMN entity_type TEXT;
+-- Platform of the shared URL, using song.link's platform names (e.g. 'spotify')
+ALTER TABLE shared_songs ADD COLUMN source_platform TEXT;
+ALTER TABLE shared_songs ADD COLUMN thumbnail_url TEXT;
+-- JSON object of platform name to URL
+ALTER TABLE shared_songs ADD COLUMN platform_links TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_shared_songs_artist ON shared_songs(artist);
+CREATE INDEX IF NOT EXISTS idx_shared_songs_source_platform ON shared_songs(source_platform);
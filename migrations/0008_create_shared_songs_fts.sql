@@ -0,0 +1,31 @@
+-- Migration: Full-text search over shared song titles, artists and albums
+CREATE VIRTUAL TABLE IF NOT EXISTS shared_songs_fts USING fts5(
+    title,
+    artist,
+    track_title,
+    album,
+    content = 'shared_songs',
+    content_rowid = 'id',
+    tokenize = 'unicode61 remove_diacritics 2'
+);
+
+-- Keep the index in sync with shared_songs
+CREATE TRIGGER IF NOT EXISTS shared_songs_fts_insert AFTER INSERT ON shared_songs BEGIN
+    INSERT INTO shared_songs_fts (rowid, title, artist, track_title, album)
+    VALUES (new.id, new.title, new.artist, new.track_title, new.album);
+END;
+
+CREATE TRIGGER IF NOT EXISTS shared_songs_fts_delete AFTER DELETE ON shared_songs BEGIN
+    INSERT INTO shared_songs_fts (shared_songs_fts, rowid, title, artist, track_title, album)
+    VALUES ('delete', old.id, old.title, old.artist, old.track_title, old.album);
+END;
+
+CREATE TRIGGER IF NOT EXISTS shared_songs_fts_update AFTER UPDATE OF title, artist, track_title, album ON shared_songs BEGIN
+    INSERT INTO shared_songs_fts (shared_songs_fts, rowid, title, artist, track_title, album)
+    VALUES ('delete', old.id, old.title, old.artist, old.track_title, old.album);
+    INSERT INTO shared_songs_fts (rowid, title, artist, track_title, album)
+    VALUES (new.id, new.title, new.artist, new.track_title, new.album);
+END;
+
+-- Index the shares stored before this migration
+INSERT INTO shared_songs_fts (shared_songs_fts) VALUES ('rebuild');
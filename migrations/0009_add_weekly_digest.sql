@@ -0,0 +1,9 @@
+-- Migration: Weekly digest settings per channel
+-- Channels opt in; the digest is posted on digest_day (0 = Sunday) at
+-- digest_hour, both in UTC
+ALTER TABLE channel_settings ADD COLUMN digest_enabled INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE channel_settings ADD COLUMN digest_day INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE channel_settings ADD COLUMN digest_hour INTEGER NOT NULL DEFAULT 9;
+ALTER TABLE channel_settings ADD COLUMN digest_last_sent_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_channel_settings_digest ON channel_settings(digest_enabled, digest_day, digest_hour);
@@ -0,0 +1,42 @@
+-- Migration: Sync shared songs to playlists on streaming services
+-- OAuth tokens for the account playlists are created in, one per provider
+CREATE TABLE IF NOT EXISTS oauth_tokens (
+    provider TEXT PRIMARY KEY,
+    refresh_token TEXT NOT NULL,
+    access_token TEXT,
+    access_token_expires_at TEXT,
+    connected_by TEXT,
+    connected_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Playlists per channel: a 'rolling' one and 'week:YYYY-MM-DD' ones
+CREATE TABLE IF NOT EXISTS playlists (
+    provider TEXT NOT NULL,
+    playlist_id TEXT NOT NULL,
+    channel TEXT NOT NULL,
+    playlist_key TEXT NOT NULL,
+    title TEXT NOT NULL,
+    url TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (provider, playlist_id),
+    UNIQUE (provider, channel, playlist_key)
+);
+
+-- What was added to each playlist, so reruns don't add anything twice.
+-- item_id is the provider's id for the track (e.g. a YouTube video id).
+CREATE TABLE IF NOT EXISTS playlist_items (
+    provider TEXT NOT NULL,
+    playlist_id TEXT NOT NULL,
+    item_id TEXT NOT NULL,
+    share_id INTEGER REFERENCES shared_songs(id) ON DELETE SET NULL,
+    status TEXT NOT NULL,
+    error TEXT,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (provider, playlist_id, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_playlist_items_share ON playlist_items(share_id);
+
+ALTER TABLE channel_settings ADD COLUMN youtube_playlist_enabled INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE channel_settings ADD COLUMN youtube_weekly_playlists INTEGER NOT NULL DEFAULT 0;
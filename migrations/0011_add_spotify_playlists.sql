@@ -0,0 +1,6 @@
+-- Migration: Mirror shared songs to Spotify playlists
+-- Tokens, playlists and items use the tables from 0010 with provider 'spotify'.
+-- Spotify item ids are URIs: 'spotify:track:...' for tracks, and
+-- 'spotify:album:...' for albums whose tracks couldn't be looked up.
+ALTER TABLE channel_settings ADD COLUMN spotify_playlist_enabled INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE channel_settings ADD COLUMN spotify_album_tracks INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,10 @@
+-- Migration: Reactions on shared songs
+-- Reactions on either the original message or the bot's reply count towards
+-- every share they belong to. A message with several links counts for each.
+CREATE TABLE IF NOT EXISTS song_reactions (
+    share_id INTEGER NOT NULL REFERENCES shared_songs(id) ON DELETE CASCADE,
+    -- Emoji name without colons or skin tone, e.g. 'fire'
+    emoji TEXT NOT NULL,
+    count INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (share_id, emoji)
+);
@@ -0,0 +1,11 @@
+-- Migration: Bearer tokens for the read-only /api routes
+-- Only a SHA-256 hash of each token is stored. Create tokens with
+-- scripts/create-api-token.ts and revoke them by setting revoked_at.
+CREATE TABLE IF NOT EXISTS api_tokens (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    last_used_at TEXT,
+    revoked_at TEXT
+);
@@ -0,0 +1,5 @@
+-- Migration: Feeds of a channel's shares (RSS, Atom, JSON Feed, M3U, XSPF)
+-- Feeds are off until turned on with `/songs feed on`. Private channels get a
+-- secret token that must be passed as ?token= to read the feed.
+ALTER TABLE channel_settings ADD COLUMN feed_enabled INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE channel_settings ADD COLUMN feed_token TEXT;
@@ -0,0 +1,18 @@
+-- Migration: Install the app in more than one workspace through Slack OAuth
+-- One bot token per workspace, removed when the app is uninstalled or its
+-- tokens are revoked
+CREATE TABLE IF NOT EXISTS slack_installations (
+    team_id TEXT PRIMARY KEY,
+    team_name TEXT,
+    bot_token TEXT NOT NULL,
+    bot_user_id TEXT,
+    installed_by TEXT,
+    installed_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- The workspace a share was posted in. Shares stored before this migration
+-- have no team; assign them to the original workspace with
+--   UPDATE shared_songs SET team_id = 'T0123456789' WHERE team_id IS NULL;
+ALTER TABLE shared_songs ADD COLUMN team_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_shared_songs_team ON shared_songs(team_id, shared_at);
@@ -0,0 +1,9 @@
+-- Migration: Per-channel behaviour, set from Slack with `/songlink config`
+-- reply_mode is thread, channel, ephemeral or unfurl. platforms is a JSON
+-- array of song.link platforms to show as buttons; NULL shows them all.
+ALTER TABLE channel_settings ADD COLUMN enabled INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE channel_settings ADD COLUMN reply_mode TEXT NOT NULL DEFAULT 'thread';
+ALTER TABLE channel_settings ADD COLUMN platforms TEXT;
+ALTER TABLE channel_settings ADD COLUMN youtube_embed INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE channel_settings ADD COLUMN store_shares INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE channel_settings ADD COLUMN youtube_fallback INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,10 @@
+-- Migration: What each shared link is to: 'track', 'album', 'playlist',
+-- 'artist' or 'episode' (a podcast episode)
+ALTER TABLE shared_songs ADD COLUMN link_type TEXT;
+
+UPDATE shared_songs SET link_type = 'track' WHERE entity_type = 'song';
+UPDATE shared_songs SET link_type = 'album' WHERE entity_type = 'album';
+
+-- Albums were titled like songs, "Artist - Title"
+UPDATE shared_songs SET title = 'Album: ' || title
+WHERE entity_type = 'album' AND title IS NOT NULL;
@@ -0,0 +1,9 @@
+-- Migration: Which channels are public, so shares from private channels, DMs
+-- and group DMs are only listed to people in them. Rows come from message
+-- events' channel_type and, for channels not seen since, conversations.info.
+CREATE TABLE IF NOT EXISTS slack_channels (
+    channel TEXT PRIMARY KEY,
+    team_id TEXT,
+    is_public INTEGER NOT NULL,
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
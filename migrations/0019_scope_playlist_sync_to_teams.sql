@@ -0,0 +1,56 @@
+-- Migration: Keep playlist sync separate per workspace
+-- Each workspace connects its own YouTube and Spotify accounts. Tokens from
+-- before this migration have no team; they're assigned to SLACK_BOT_TOKEN's
+-- workspace along with its shares.
+CREATE TABLE IF NOT EXISTS oauth_tokens_by_team (
+    team_id TEXT,
+    provider TEXT NOT NULL,
+    refresh_token TEXT NOT NULL,
+    access_token TEXT,
+    access_token_expires_at TEXT,
+    connected_by TEXT,
+    connected_at TEXT NOT NULL DEFAULT (datetime('now')),
+    UNIQUE (team_id, provider)
+);
+
+INSERT INTO oauth_tokens_by_team
+    (provider, refresh_token, access_token, access_token_expires_at, connected_by, connected_at)
+SELECT provider, refresh_token, access_token, access_token_expires_at, connected_by, connected_at
+FROM oauth_tokens;
+
+DROP TABLE oauth_tokens;
+ALTER TABLE oauth_tokens_by_team RENAME TO oauth_tokens;
+
+-- The workspace a channel is in, whose account its playlists are synced with
+ALTER TABLE channel_settings ADD COLUMN team_id TEXT;
+
+UPDATE channel_settings SET team_id = (
+    SELECT team_id FROM shared_songs
+    WHERE shared_songs.channel = channel_settings.channel AND team_id IS NOT NULL
+    ORDER BY id DESC LIMIT 1
+);
+
+-- Playlists belong to the workspace whose account created them
+CREATE TABLE IF NOT EXISTS playlists_by_team (
+    provider TEXT NOT NULL,
+    playlist_id TEXT NOT NULL,
+    team_id TEXT,
+    channel TEXT NOT NULL,
+    playlist_key TEXT NOT NULL,
+    title TEXT NOT NULL,
+    url TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (provider, playlist_id),
+    UNIQUE (provider, team_id, channel, playlist_key)
+);
+
+INSERT INTO playlists_by_team
+    (provider, playlist_id, team_id, channel, playlist_key, title, url, created_at)
+SELECT provider, playlist_id, (
+    SELECT team_id FROM channel_settings
+    WHERE channel_settings.channel = playlists.channel
+), channel, playlist_key, title, url, created_at
+FROM playlists;
+
+DROP TABLE playlists;
+ALTER TABLE playlists_by_team RENAME TO playlists;
@@ -0,0 +1,7 @@
+-- Migration: Match shares of the same song across platforms
+-- The song's id on a fixed platform (see canonicalSongId), rather than on the
+-- platform it was shared from. Existing shares are filled in by
+-- scripts/enrich.ts.
+ALTER TABLE shared_songs ADD COLUMN song_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_shared_songs_song ON shared_songs(channel, song_id);
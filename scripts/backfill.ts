@@ -6,10 +6,29 @@
  *
  * Or set channels via env:
  *   SLACK_BOT_TOKEN=xoxb-... CHANNELS=C123,C456 npx tsx scripts/backfill.ts
+ *
+ * song.link lookups go through the worker's resolution cache: existing
+ * entries are read from D1 via wrangler before scanning, and new entries
+ * are written to scripts/backfill.sql alongside the shares.
  */
 
-const MUSIC_URL_REGEX =
-  /(https?:\/\/)?(open\.spotify\.com|music\.apple\.com|itunes\.apple\.com|youtube\.com|youtu\.be|music\.youtube\.com|play\.google\.com|pandora\.com|deezer\.com|tidal\.com|amazon\.com\/music|music\.amazon\.com|soundcloud\.com|(?:web\.)?napster\.com|music\.yandex\.(?:com|ru)|spinrilla\.com|audius\.co|anghami\.com|boomplay\.com|audiomack\.com|[\w-]+\.bandcamp\.com|bandcamp\.com)\/[^\s>]+/gi;
+import { extractMusicUrls } from "../src/links";
+import {
+  platformFromUrl,
+  songLinkAlbum,
+  summarizeSongLink,
+} from "../src/songlink";
+import type {
+  SharedSong,
+  SlackAttachment,
+  SlackMessageBlock,
+} from "../src/types";
+import {
+  cacheStatements,
+  getSongLinkData,
+  loadSongLinkCache,
+  sqlString,
+} from "./d1";
 
 interface SlackMessage {
   type: string;
@@ -17,6 +36,8 @@ interface SlackMessage {
   text?: string;
   ts: string;
   bot_id?: string;
+  blocks?: SlackMessageBlock[];
+  attachments?: SlackAttachment[];
 }
 
 interface SlackHistoryResponse {
@@ -29,29 +50,7 @@ interface SlackHistoryResponse {
   error?: string;
 }
 
-interface SongLinkResponse {
-  pageUrl: string;
-  entityUniqueId: string;
-  linksByPlatform?: {
-    youtube?: { url: string };
-    youtubeMusic?: { url: string };
-  };
-  entitiesByUniqueId?: {
-    [key: string]: {
-      artistName?: string;
-      title?: string;
-    };
-  };
-}
-
-interface SharedSong {
-  original_url: string;
-  songlink_url?: string;
-  youtube_url?: string;
-  title?: string;
-  shared_by: string;
-  channel: string;
-  message_ts: string;
+interface BackfilledSong extends SharedSong {
   shared_at: string;
 }
 
@@ -123,24 +122,23 @@ async function fetchChannelHistory(channelId: string): Promise<SlackMessage[]> {
   return allMessages;
 }
 
-async function getSongLinkData(
-  url: string,
-): Promise<Partial<SongLinkResponse> | null> {
-  try {
-    const response = await fetch(
-      `https://api.song.link/v1-alpha.1/links?url=${encodeURIComponent(url)}`,
-    );
-
-    if (!response.ok) {
-      console.log(`  song.link API error for ${url}: ${response.status}`);
-      return null;
-    }
+// The workspace the token belongs to, so backfilled shares are stored
+// under the right team
+async function fetchTeamId(): Promise<string> {
+  const response = await fetch("https://slack.com/api/auth.test", {
+    headers: {
+      Authorization: `Bearer ${SLACK_BOT_TOKEN}`,
+    },
+  });
+  const data: { ok: boolean; team_id?: string; error?: string } =
+    await response.json();
 
-    return await response.json();
-  } catch (error) {
-    console.log(`  Error fetching song.link data: ${error}`);
-    return null;
+  if (!data.ok || !data.team_id) {
+    console.error(`Error checking token: ${data.error}`);
+    process.exit(1);
   }
+
+  return data.team_id;
 }
 
 function tsToISODate(ts: string): string {
@@ -152,27 +150,19 @@ async function main() {
   console.log(`\nBackfilling songs from the past 7 days...`);
   console.log(`Channels to scan: ${channelIds.join(", ")}\n`);
 
-  const songs: SharedSong[] = [];
-  const seenUrls = new Set<string>();
+  loadSongLinkCache();
+
+  const teamId = await fetchTeamId();
+  const songs: BackfilledSong[] = [];
 
   for (const channelId of channelIds) {
     const messages = await fetchChannelHistory(channelId);
 
     for (const message of messages) {
-      if (!message.text || !message.user) continue;
-
-      const matches = message.text.match(MUSIC_URL_REGEX);
-      if (!matches) continue;
-
-      for (const url of matches) {
-        // Clean URL (remove Slack's wrapping)
-        const cleanUrl = url.replace(/^<|>$/g, "").split("|")[0];
-
-        // Dedupe by URL + message
-        const dedupeKey = `${channelId}:${message.ts}:${cleanUrl}`;
-        if (seenUrls.has(dedupeKey)) continue;
-        seenUrls.add(dedupeKey);
+      if (!message.user) continue;
 
+      // Each link once per message, from its text, blocks and attachments
+      for (const cleanUrl of extractMusicUrls(message)) {
         console.log(`Processing: ${cleanUrl.slice(0, 60)}...`);
 
         // Rate limit: be nice to song.link API
@@ -180,26 +170,16 @@ async function main() {
 
         const songData = await getSongLinkData(cleanUrl);
 
-        const youtubeUrl =
-          songData?.linksByPlatform?.youtube?.url ||
-          songData?.linksByPlatform?.youtubeMusic?.url;
-
-        let title: string | undefined;
-        if (songData?.entitiesByUniqueId && songData.entityUniqueId) {
-          const entity = songData.entitiesByUniqueId[songData.entityUniqueId];
-          if (entity?.artistName && entity?.title) {
-            title = `${entity.artistName} - ${entity.title}`;
-          }
-        }
-
         songs.push({
           original_url: cleanUrl,
-          songlink_url: songData?.pageUrl,
-          youtube_url: youtubeUrl,
-          title,
+          ...(songData
+            ? summarizeSongLink(songData, await songLinkAlbum(songData))
+            : {}),
+          source_platform: platformFromUrl(cleanUrl) ?? undefined,
           shared_by: message.user,
           channel: channelId,
           message_ts: message.ts,
+          team_id: teamId,
           shared_at: tsToISODate(message.ts),
         });
       }
@@ -223,12 +203,10 @@ async function main() {
 
   // Generate SQL file
   const sqlStatements = songs.map((song) => {
-    const escape = (s?: string) =>
-      s ? `'${s.replace(/'/g, "''")}'` : "NULL";
-    return `INSERT OR IGNORE INTO shared_songs (original_url, songlink_url, youtube_url, title, shared_by, channel, message_ts, shared_at) VALUES (${escape(song.original_url)}, ${escape(song.songlink_url)}, ${escape(song.youtube_url)}, ${escape(song.title)}, ${escape(song.shared_by)}, ${escape(song.channel)}, ${escape(song.message_ts)}, ${escape(song.shared_at)});`;
+    return `INSERT OR IGNORE INTO shared_songs (original_url, songlink_url, youtube_url, title, entity_unique_id, song_id, artist, track_title, album, entity_type, link_type, source_platform, thumbnail_url, platform_links, shared_by, channel, message_ts, team_id, shared_at) VALUES (${sqlString(song.original_url)}, ${sqlString(song.songlink_url)}, ${sqlString(song.youtube_url)}, ${sqlString(song.title)}, ${sqlString(song.entity_unique_id)}, ${sqlString(song.song_id)}, ${sqlString(song.artist)}, ${sqlString(song.track_title)}, ${sqlString(song.album)}, ${sqlString(song.entity_type)}, ${sqlString(song.link_type)}, ${sqlString(song.source_platform)}, ${sqlString(song.thumbnail_url)}, ${sqlString(song.platform_links && JSON.stringify(song.platform_links))}, ${sqlString(song.shared_by)}, ${sqlString(song.channel)}, ${sqlString(song.message_ts)}, ${sqlString(song.team_id)}, ${sqlString(song.shared_at)});`;
   });
 
-  const sqlContent = sqlStatements.join("\n");
+  const sqlContent = [...cacheStatements, ...sqlStatements].join("\n");
 
   // Write to file
   const fs = await import("fs/promises");
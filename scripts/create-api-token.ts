@@ -0,0 +1,35 @@
+/**
+ * Create a bearer token for the read-only /api routes. The token is printed
+ * once; only its SHA-256 hash is stored in D1.
+ *
+ * Usage:
+ *   npx tsx scripts/create-api-token.ts "<name, e.g. grafana>"
+ *
+ * Revoke a token by setting revoked_at:
+ *   wrangler d1 execute songlink-shares --remote \
+ *     --command="UPDATE api_tokens SET revoked_at = datetime('now') WHERE name = 'grafana'"
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { queryD1, sqlString } from "./d1";
+
+function main() {
+  const name = process.argv.slice(2).join(" ").trim();
+  if (!name) {
+    console.error('Usage: npx tsx scripts/create-api-token.ts "<name>"');
+    process.exit(1);
+  }
+
+  const token = `slsb_${randomBytes(32).toString("base64url")}`;
+  const tokenHash = createHash("sha256").update(token).digest("hex");
+
+  queryD1(
+    `INSERT INTO api_tokens (name, token_hash) VALUES (${sqlString(name)}, ${sqlString(tokenHash)})`,
+  );
+
+  console.log(`Created API token "${name}". It won't be shown again:\n`);
+  console.log(`  ${token}\n`);
+  console.log("Use it as: Authorization: Bearer <token>");
+}
+
+main();
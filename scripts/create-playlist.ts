@@ -19,6 +19,7 @@ import { google } from "googleapis";
 import * as fs from "fs/promises";
 import * as http from "http";
 import * as url from "url";
+import { extractVideoId } from "../src/youtube";
 
 const OAUTH_CREDENTIALS_PATH = "scripts/oauth-credentials.json";
 const TOKEN_PATH = "scripts/youtube-token.json";
@@ -163,19 +164,6 @@ async function getAuthenticatedClient() {
   return oauth2Client;
 }
 
-function extractVideoId(youtubeUrl: string): string | null {
-  const patterns = [
-    /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([a-zA-Z0-9_-]{11})/,
-    /music\.youtube\.com\/watch\?v=([a-zA-Z0-9_-]{11})/,
-  ];
-
-  for (const pattern of patterns) {
-    const match = youtubeUrl.match(pattern);
-    if (match) return match[1];
-  }
-  return null;
-}
-
 async function loadSongs(): Promise<Array<{ videoId: string; title?: string }>> {
   try {
     const content = await fs.readFile(SONGS_PATH, "utf-8");
@@ -0,0 +1,122 @@
+/**
+ * Shared helpers for scripts that read from the production D1 database via
+ * wrangler and resolve links through the worker's song.link cache. New cache
+ * entries are collected as SQL in `cacheStatements` for the script to write
+ * out alongside its own statements.
+ */
+
+import { execFileSync } from "child_process";
+import { fetchSongLink } from "../src/songlink";
+import type {
+  CachedSongLink,
+  SongLinkCacheStore,
+  SongLinkResponse,
+} from "../src/types";
+
+// Run a query against the remote D1 database
+export function queryD1<T>(sql: string): T[] {
+  const output = execFileSync(
+    "npx",
+    [
+      "wrangler",
+      "d1",
+      "execute",
+      "songlink-shares",
+      "--remote",
+      "--json",
+      `--command=${sql}`,
+    ],
+    { encoding: "utf-8", maxBuffer: 256 * 1024 * 1024 },
+  );
+
+  // D1 JSON output is an array with one result object
+  const data: Array<{ results: T[] }> = JSON.parse(output);
+  return data[0]?.results ?? [];
+}
+
+export function sqlString(s?: string): string {
+  return s ? `'${s.replace(/'/g, "''")}'` : "NULL";
+}
+
+// Cache entries already in D1, keyed by lookup key
+const songLinkCacheEntries = new Map<string, CachedSongLink>();
+// SQL for cache entries created during this run
+export const cacheStatements: string[] = [];
+
+export function loadSongLinkCache(): void {
+  console.log("Loading song.link cache from D1...");
+  try {
+    const rows = queryD1<{
+      lookup_key: string;
+      status: number;
+      response: string | null;
+    }>(
+      `SELECT l.lookup_key, l.status, r.response FROM songlink_lookups l LEFT JOIN songlink_responses r ON r.entity_unique_id = l.entity_unique_id AND r.expires_at > datetime('now') WHERE l.expires_at > datetime('now')`,
+    );
+
+    for (const row of rows) {
+      songLinkCacheEntries.set(
+        row.lookup_key,
+        row.response
+          ? { data: JSON.parse(row.response) }
+          : { status: row.status },
+      );
+    }
+    console.log(`  Loaded ${songLinkCacheEntries.size} cache entries\n`);
+  } catch (error) {
+    console.log(`  Could not load cache, starting empty: ${error}\n`);
+  }
+}
+
+const songLinkCache: SongLinkCacheStore = {
+  async lookup(keys) {
+    for (const key of keys) {
+      const entry = songLinkCacheEntries.get(key);
+      if (entry && "data" in entry) {
+        return entry;
+      }
+    }
+    // Only a failed lookup of this exact URL counts as a negative hit
+    return songLinkCacheEntries.get(keys[0]) ?? null;
+  },
+
+  async storeSuccess(keys, data, ttlSeconds) {
+    const expiresAt = sqlString(`+${ttlSeconds} seconds`);
+    cacheStatements.push(
+      `INSERT OR REPLACE INTO songlink_responses (entity_unique_id, response, fetched_at, expires_at) VALUES (${sqlString(data.entityUniqueId)}, ${sqlString(JSON.stringify(data))}, datetime('now'), datetime('now', ${expiresAt}));`,
+    );
+    for (const key of keys) {
+      songLinkCacheEntries.set(key, { data });
+      cacheStatements.push(
+        `INSERT OR REPLACE INTO songlink_lookups (lookup_key, entity_unique_id, status, expires_at) VALUES (${sqlString(key)}, ${sqlString(data.entityUniqueId)}, 200, datetime('now', ${expiresAt}));`,
+      );
+    }
+  },
+
+  async storeFailure(key, status, ttlSeconds) {
+    songLinkCacheEntries.set(key, { status });
+    cacheStatements.push(
+      `INSERT OR REPLACE INTO songlink_lookups (lookup_key, entity_unique_id, status, expires_at) VALUES (${sqlString(key)}, NULL, ${status}, datetime('now', ${sqlString(`+${ttlSeconds} seconds`)}));`,
+    );
+  },
+};
+
+export async function getSongLinkData(
+  url: string,
+): Promise<SongLinkResponse | null> {
+  try {
+    const result = await fetchSongLink(url, songLinkCache);
+
+    if (!result.ok) {
+      console.log(
+        `  song.link API error for ${url}: ${result.status}${result.cached ? " (cached)" : ""}`,
+      );
+      return null;
+    }
+
+    return result.data;
+  } catch (error) {
+    console.log(`  Error fetching song.link data: ${error}`);
+    return null;
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * One-off job to fill in the structured track metadata (artist, title, album,
+ * entity type, song id, source platform, artwork and platform links) for
+ * shares stored before those columns existed. Shares whose lookup fails are
+ * picked up again on the next run.
+ *
+ * Usage:
+ *   npx tsx scripts/enrich.ts
+ *   wrangler d1 execute songlink-shares --remote --file=scripts/enrich.sql
+ */
+
+import {
+  platformFromUrl,
+  songLinkAlbum,
+  summarizeSongLink,
+} from "../src/songlink";
+import {
+  cacheStatements,
+  getSongLinkData,
+  loadSongLinkCache,
+  queryD1,
+  sqlString,
+} from "./d1";
+
+const ENRICH_SQL_PATH = "scripts/enrich.sql";
+
+async function main() {
+  console.log("Enriching stored shares with track metadata...\n");
+
+  const rows = queryD1<{ id: number; original_url: string }>(
+    `SELECT id, original_url FROM shared_songs WHERE (entity_type IS NULL OR song_id IS NULL) AND deleted_at IS NULL`,
+  );
+  console.log(`Found ${rows.length} shares to enrich.\n`);
+
+  if (rows.length === 0) {
+    return;
+  }
+
+  loadSongLinkCache();
+
+  const updates: string[] = [];
+  let resolved = 0;
+
+  for (const row of rows) {
+    console.log(`Processing: ${row.original_url.slice(0, 60)}...`);
+
+    const sourcePlatform = platformFromUrl(row.original_url) ?? undefined;
+    const songData = await getSongLinkData(row.original_url);
+
+    if (!songData) {
+      // Still record the platform, which only depends on the URL
+      updates.push(
+        `UPDATE shared_songs SET source_platform = ${sqlString(sourcePlatform)} WHERE id = ${row.id};`,
+      );
+      continue;
+    }
+
+    const song = summarizeSongLink(songData, await songLinkAlbum(songData));
+    resolved++;
+
+    updates.push(
+      `UPDATE shared_songs SET songlink_url = COALESCE(songlink_url, ${sqlString(song.songlink_url)}), youtube_url = COALESCE(youtube_url, ${sqlString(song.youtube_url)}), title = COALESCE(title, ${sqlString(song.title)}), entity_unique_id = ${sqlString(song.entity_unique_id)}, song_id = ${sqlString(song.song_id)}, artist = ${sqlString(song.artist)}, track_title = ${sqlString(song.track_title)}, album = ${sqlString(song.album)}, entity_type = ${sqlString(song.entity_type)}, link_type = ${sqlString(song.link_type)}, source_platform = ${sqlString(sourcePlatform)}, thumbnail_url = ${sqlString(song.thumbnail_url)}, platform_links = ${sqlString(song.platform_links && JSON.stringify(song.platform_links))} WHERE id = ${row.id};`,
+    );
+
+    // Rate limit: be nice to song.link API
+    await new Promise((r) => setTimeout(r, 500));
+  }
+
+  const fs = await import("fs/promises");
+  await fs.writeFile(
+    ENRICH_SQL_PATH,
+    [...cacheStatements, ...updates].join("\n"),
+  );
+
+  console.log(
+    `\nResolved ${resolved} of ${rows.length} shares. Generated ${ENRICH_SQL_PATH}.`,
+  );
+  console.log("Run the following command to apply it:\n");
+  console.log(
+    `wrangler d1 execute songlink-shares --remote --file=${ENRICH_SQL_PATH}\n`,
+  );
+}
+
+main().catch(console.error);
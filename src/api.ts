@@ -0,0 +1,159 @@
+import { Hono, type Context } from "hono";
+import { bearerAuth } from "hono/bearer-auth";
+import { HTTPException } from "hono/http-exception";
+import type { Env } from "./types";
+import { sha256Hex } from "./crypto";
+import { getSongShare, listSongShares, type SongShareFilter } from "./shares";
+import {
+  shareTotals,
+  topArtists,
+  topSharers,
+  topSongs,
+  type StatsFilter,
+} from "./stats";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Read-only JSON API over the share history, for dashboards and the like.
+// Every route needs an API token: `Authorization: Bearer <token>`.
+export const api = new Hono<{ Bindings: Env }>();
+
+api.use(
+  "*",
+  bearerAuth({
+    verifyToken: async (token, c) => {
+      const tokenHash = await sha256Hex(token);
+      const { meta } = await c.env.DB.prepare(
+        `UPDATE api_tokens SET last_used_at = datetime('now')
+         WHERE token_hash = ? AND revoked_at IS NULL`,
+      )
+        .bind(tokenHash)
+        .run();
+      return meta.changes > 0;
+    },
+  }),
+);
+
+function badRequest(message: string): HTTPException {
+  return new HTTPException(400, { message });
+}
+
+api.onError((error, c) => {
+  if (error instanceof HTTPException) {
+    // Bad input from the handlers as JSON; 401s from bearerAuth as they are
+    return error.status === 400
+      ? c.json({ error: error.message }, 400)
+      : error.getResponse();
+  }
+
+  console.error("API error:", error);
+  return c.json({ error: "internal_error" }, 500);
+});
+
+// A date query parameter, checked so bad input is an error rather than an
+// empty result
+function dateParam(c: Context, name: string): string | undefined {
+  const value = c.req.query(name);
+  if (value && Number.isNaN(Date.parse(value))) {
+    throw badRequest(`invalid ${name}: use an ISO 8601 date`);
+  }
+  return value && new Date(value).toISOString();
+}
+
+// Cursors are opaque to clients: base64url of the last share's shared_at and id
+export function encodeCursor(song: { shared_at: string; id: number }): string {
+  return btoa(JSON.stringify([song.shared_at, song.id]))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export function decodeCursor(cursor: string): SongShareFilter["after"] {
+  try {
+    const [shared_at, id] = JSON.parse(
+      atob(cursor.replace(/-/g, "+").replace(/_/g, "/")),
+    );
+    if (typeof shared_at === "string" && typeof id === "number") {
+      return { shared_at, id };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw badRequest("invalid cursor");
+}
+
+// List shares for GET /api/songs and /api/users/:id/songs
+async function listSongs(c: Context<{ Bindings: Env }>, user?: string) {
+  const limitParam = c.req.query("limit");
+  const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_PAGE_SIZE;
+  if (!(limit >= 1 && limit <= MAX_PAGE_SIZE)) {
+    throw badRequest(`invalid limit: use 1-${MAX_PAGE_SIZE}`);
+  }
+
+  const hasYoutube = c.req.query("has_youtube");
+  if (hasYoutube && hasYoutube !== "true" && hasYoutube !== "false") {
+    throw badRequest("invalid has_youtube: use true or false");
+  }
+
+  const cursor = c.req.query("cursor");
+  const filter: SongShareFilter = {
+    team: c.req.query("team"),
+    channel: c.req.query("channel"),
+    user: user ?? c.req.query("user"),
+    from: dateParam(c, "from"),
+    to: dateParam(c, "to"),
+    platform: c.req.query("platform"),
+    hasYoutube: hasYoutube ? hasYoutube === "true" : undefined,
+    after: cursor ? decodeCursor(cursor) : undefined,
+  };
+
+  // Fetch one extra to know whether there's another page
+  const songs = await listSongShares(c.env.DB, filter, limit + 1);
+  const page = songs.slice(0, limit);
+
+  return c.json({
+    songs: page,
+    next_cursor:
+      songs.length > limit ? encodeCursor(page[page.length - 1]) : null,
+  });
+}
+
+// GET /api/songs?team=&channel=&user=&from=&to=&platform=&has_youtube=&limit=&cursor=
+api.get("/songs", (c) => listSongs(c));
+
+api.get("/songs/:id{[0-9]+}", async (c) => {
+  const song = await getSongShare(c.env.DB, parseInt(c.req.param("id"), 10));
+  return song ? c.json(song) : c.json({ error: "not_found" }, 404);
+});
+
+api.get("/users/:id/songs", (c) => listSongs(c, c.req.param("id")));
+
+// GET /api/stats?team=&channel=&user=&days=: totals and leaderboards, all time
+// unless days is given
+api.get("/stats", async (c) => {
+  const days = c.req.query("days");
+  if (days && !/^\d{1,4}$/.test(days)) {
+    throw badRequest("invalid days: use a whole number of days");
+  }
+
+  const filter: StatsFilter = {
+    team: c.req.query("team"),
+    channel: c.req.query("channel"),
+    user: c.req.query("user"),
+    since: days ? `-${days} days` : undefined,
+  };
+  const [totals, songs, sharers, artists] = await Promise.all([
+    shareTotals(c.env.DB, filter),
+    topSongs(c.env.DB, filter),
+    topSharers(c.env.DB, filter),
+    topArtists(c.env.DB, filter),
+  ]);
+
+  return c.json({
+    totals,
+    top_songs: songs,
+    top_sharers: sharers,
+    top_artists: artists,
+  });
+});
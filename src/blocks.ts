@@ -0,0 +1,278 @@
+import type {
+  ChannelSettings,
+  LinkType,
+  PreviousShares,
+  ResolvedTrack,
+  ResolverName,
+  SlackBlock,
+  SlackButtonElement,
+  SharerCount,
+  SongLinkPlatform,
+} from "./types";
+import { isBestGuess } from "./resolvers";
+import { platformFromUrl } from "./songlink";
+
+// Display order and labels for platform buttons. Platforms song.link returns
+// that aren't listed here are skipped.
+export const PLATFORM_LABELS: Array<[SongLinkPlatform, string]> = [
+  ["spotify", "Spotify"],
+  ["appleMusic", "Apple Music"],
+  ["youtubeMusic", "YouTube Music"],
+  ["youtube", "YouTube"],
+  ["tidal", "Tidal"],
+  ["deezer", "Deezer"],
+  ["amazonMusic", "Amazon Music"],
+  ["soundcloud", "SoundCloud"],
+  ["bandcamp", "Bandcamp"],
+  ["pandora", "Pandora"],
+  ["napster", "Napster"],
+  ["yandex", "Yandex Music"],
+  ["audiomack", "Audiomack"],
+  ["anghami", "Anghami"],
+  ["boomplay", "Boomplay"],
+  ["audius", "Audius"],
+  ["spinrilla", "Spinrilla"],
+];
+
+// Slack allows at most 25 elements per actions block
+const MAX_BUTTONS_PER_BLOCK = 25;
+
+// How many of a playlist's or album's tracks its card lists
+const LISTED_TRACKS = 5;
+
+// Emoji and name for each kind of link on its card
+const LINK_TYPE_LABELS: Record<LinkType, [string, string]> = {
+  track: ["🎵", "Track"],
+  album: ["💿", "Album"],
+  playlist: ["📃", "Playlist"],
+  artist: ["🎤", "Artist"],
+  episode: ["🎙️", "Podcast episode"],
+};
+
+// Escape the characters Slack treats as control sequences in mrkdwn
+export function escapeMrkdwn(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function ordinal(n: number): string {
+  const suffixes = ["th", "st", "nd", "rd"];
+  const v = n % 100;
+  return n + (suffixes[(v - 20) % 10] || suffixes[v] || suffixes[0]);
+}
+
+// "First shared by @alice on 3 March — 4th share overall", with the date
+// rendered in each reader's timezone
+function previousSharesText(previous: PreviousShares): string {
+  const seconds = Math.floor(parseFloat(previous.first_message_ts));
+  const fallbackDate = new Date(seconds * 1000).toISOString().slice(0, 10);
+  const firstShared = previous.first_permalink
+    ? `<${previous.first_permalink}|First shared>`
+    : "First shared";
+
+  return `🔁 ${firstShared} by <@${previous.first_shared_by}> <!date^${seconds}^on {date_short}|on ${fallbackDate}> — ${ordinal(previous.count + 1)} share overall`;
+}
+
+// Names shown for where a song card's details came from
+const RESOLVER_LABELS: Record<ResolverName, string> = {
+  songlink: "song.link",
+  itunes: "Apple Music",
+  deezer: "Deezer",
+  musicbrainz: "MusicBrainz",
+  youtube: "YouTube",
+  // Described by the link's own page, labelled with its platform if known
+  page: "Open",
+};
+
+// Where a card's details came from, named after the link's platform when it
+// was the link's own page
+function sourceLabel(track: ResolvedTrack): string {
+  const platform =
+    track.resolver === "page" && track.url ? platformFromUrl(track.url) : null;
+  return (
+    PLATFORM_LABELS.find(([candidate]) => candidate === platform)?.[1] ??
+    RESOLVER_LABELS[track.resolver]
+  );
+}
+
+// The first few tracks of a playlist or album, numbered
+function trackListText(track: ResolvedTrack): string {
+  const tracks = track.tracks?.slice(0, LISTED_TRACKS) ?? [];
+  const lines = tracks.map((listed, i) => {
+    const name = escapeMrkdwn(
+      listed.artist ? `${listed.artist} – ${listed.title}` : listed.title,
+    );
+    return `${i + 1}. ${listed.url ? `<${listed.url}|${name}>` : name}`;
+  });
+
+  const more = (track.track_count ?? 0) - tracks.length;
+  return more > 0
+    ? [...lines, `…and ${more} more`].join("\n")
+    : lines.join("\n");
+}
+
+// The song reply for a track from any resolver, linking to its page on the
+// resolver's site. Albums, playlists, artists and podcast episodes each get
+// their own heading, and playlists and albums list their first few tracks.
+export function buildTrackReply(
+  track: ResolvedTrack,
+  previousShares?: PreviousShares | null,
+  settings: Pick<ChannelSettings, "platforms" | "youtube_embed"> = {
+    platforms: null,
+    youtube_embed: true,
+  },
+): {
+  text: string;
+  blocks: SlackBlock[];
+} {
+  const youtubeUrl = settings.youtube_embed
+    ? track.links.youtube || track.links.youtubeMusic
+    : undefined;
+  const linkType =
+    track.link_type ?? (track.entity_type === "album" ? "album" : "track");
+  const [emoji, kind] = LINK_TYPE_LABELS[linkType];
+
+  // A playlist's maker goes in the subheading, and an artist is just a name
+  const withArtist = linkType !== "playlist" && linkType !== "artist";
+  const name =
+    withArtist && track.artist && track.title
+      ? `${track.artist} – ${track.title}`
+      : (track.title ?? "Listen on any platform");
+
+  const guess = isBestGuess(track);
+
+  // Plain-text fallback used for notifications and clients without Block Kit
+  const link = track.url ? `<${track.url}>` : escapeMrkdwn(name);
+  const label = guess ? `🤔 Best guess: ${link}` : `${emoji} ${link}`;
+  const text = youtubeUrl ? `${label}\n${youtubeUrl}` : label;
+
+  const heading = `*${escapeMrkdwn(name)}*`;
+  const source = track.url
+    ? `<${track.url}|${sourceLabel(track)}>`
+    : sourceLabel(track);
+  const subheading = [
+    linkType === "track"
+      ? null
+      : linkType === "playlist" && track.artist
+        ? `${kind} by ${escapeMrkdwn(track.artist)}`
+        : kind,
+    track.track_count ? plural(track.track_count, "track") : null,
+    source,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  const blocks: SlackBlock[] = [
+    {
+      type: "section",
+      text: { type: "mrkdwn", text: `${emoji} ${heading}\n${subheading}` },
+      ...(track.thumbnail_url && {
+        accessory: {
+          type: "image",
+          image_url: track.thumbnail_url,
+          alt_text: track.title ?? "Artwork",
+        },
+      }),
+    },
+  ];
+
+  if (track.tracks?.length) {
+    blocks.push(section(trackListText(track)));
+  }
+
+  if (guess) {
+    blocks.push({
+      type: "context",
+      elements: [
+        {
+          type: "mrkdwn",
+          text: "🤔 Best guess from a search, so it might not be the exact song",
+        },
+      ],
+    });
+  }
+
+  if (previousShares) {
+    blocks.push({
+      type: "context",
+      elements: [{ type: "mrkdwn", text: previousSharesText(previousShares) }],
+    });
+  }
+
+  const buttons: SlackButtonElement[] = PLATFORM_LABELS.flatMap(
+    ([platform, label]) => {
+      const url =
+        !settings.platforms || settings.platforms.includes(platform)
+          ? track.links[platform]
+          : undefined;
+      return url
+        ? [
+            {
+              type: "button" as const,
+              text: { type: "plain_text" as const, text: label },
+              action_id: `open_${platform}`,
+              url,
+            },
+          ]
+        : [];
+    },
+  );
+
+  for (let i = 0; i < buttons.length; i += MAX_BUTTONS_PER_BLOCK) {
+    blocks.push({
+      type: "actions",
+      elements: buttons.slice(i, i + MAX_BUTTONS_PER_BLOCK),
+    });
+  }
+
+  // Keep the YouTube link in the message body so Slack still unfurls the video
+  if (youtubeUrl) {
+    blocks.push({
+      type: "section",
+      text: { type: "mrkdwn", text: youtubeUrl },
+    });
+  }
+
+  return { text, blocks };
+}
+
+// Slack date token for a D1 datetime ("YYYY-MM-DD HH:MM:SS", UTC)
+export function slackDate(sharedAt: string): string {
+  const seconds = Math.floor(
+    Date.parse(`${sharedAt.replace(" ", "T")}Z`) / 1000,
+  );
+  return `<!date^${seconds}^{date_short}|${sharedAt.slice(0, 10)}>`;
+}
+
+export function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+export function songLine(song: {
+  title: string | null;
+  songlink_url: string | null;
+  original_url?: string;
+}): string {
+  const title = escapeMrkdwn(song.title ?? song.original_url ?? "Unknown song");
+  const url = song.songlink_url ?? song.original_url;
+  return url ? `<${url}|${title}>` : title;
+}
+
+export function sharerRows(sharers: SharerCount[]): string {
+  return sharers
+    .map(
+      (sharer, i) =>
+        `${i + 1}. <@${sharer.shared_by}> – ${plural(sharer.shares, "song")}`,
+    )
+    .join("\n");
+}
+
+// Section blocks are limited to 3000 characters of text
+export function section(text: string): SlackBlock {
+  return {
+    type: "section",
+    text: { type: "mrkdwn", text: text.slice(0, 3000) },
+  };
+}
@@ -0,0 +1,72 @@
+import { getChannelInfo } from "./slack";
+
+// SQL condition for shares posted in public channels, for lists shown to
+// people who may not be in the channel a share came from
+export const PUBLIC_CHANNEL_SQL =
+  "channel IN (SELECT channel FROM slack_channels WHERE is_public = 1)";
+
+// conversations.info calls per refresh, so a workspace with many unknown
+// channels is caught up over a few requests
+const MAX_CHANNEL_LOOKUPS = 20;
+
+async function storeChannel(
+  db: D1Database,
+  channel: string,
+  teamId: string | undefined,
+  isPublic: boolean,
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO slack_channels (channel, team_id, is_public)
+       VALUES (?, ?, ?)
+       ON CONFLICT(channel) DO UPDATE SET
+         team_id = COALESCE(excluded.team_id, slack_channels.team_id),
+         is_public = excluded.is_public,
+         updated_at = datetime('now')`,
+    )
+    .bind(channel, teamId ?? null, isPublic ? 1 : 0)
+    .run();
+}
+
+// Record whether a channel is public from a message event's channel_type
+export async function recordChannelType(
+  db: D1Database,
+  channel: string,
+  teamId: string | undefined,
+  channelType: string,
+): Promise<void> {
+  await storeChannel(db, channel, teamId, channelType === "channel");
+}
+
+// Look up channels a workspace has shares in that aren't known yet. Channels
+// the bot can't look up stay unknown, and so are treated as private.
+export async function refreshChannelVisibility(
+  db: D1Database,
+  botToken: string | undefined,
+  team: string,
+): Promise<void> {
+  if (!botToken) {
+    return;
+  }
+
+  const { results } = await db
+    .prepare(
+      `SELECT DISTINCT channel FROM shared_songs
+       WHERE team_id = ? AND channel NOT IN (SELECT channel FROM slack_channels)
+       LIMIT ?`,
+    )
+    .bind(team, MAX_CHANNEL_LOOKUPS)
+    .all<{ channel: string }>();
+
+  for (const { channel } of results) {
+    const info = await getChannelInfo(botToken, channel);
+    if (info) {
+      await storeChannel(
+        db,
+        channel,
+        team,
+        !info.is_private && !info.is_im && !info.is_mpim,
+      );
+    }
+  }
+}
@@ -0,0 +1,479 @@
+import type {
+  ChannelSettings,
+  Env,
+  OAuthProvider,
+  RatedSong,
+  ShareSummary,
+  SlackBlock,
+  SlackCommand,
+  SlackCommandResponse,
+  SongCount,
+} from "./types";
+import {
+  escapeMrkdwn,
+  plural,
+  section,
+  sharerRows,
+  slackDate,
+  songLine,
+} from "./blocks";
+import { refreshChannelVisibility } from "./channels";
+import { randomToken } from "./crypto";
+import { channelFeedUrls } from "./feeds";
+import { getBotToken } from "./installations";
+import { createOAuthState } from "./oauth";
+import { listChannelPlaylists } from "./playlists";
+import { getChannelSettings, updateChannelSettings } from "./settings";
+import { searchSongShares } from "./shares";
+import { getChannelInfo, messagePermalink } from "./slack";
+import {
+  recentShares,
+  shareTotals,
+  topSharers,
+  topRatedSongs,
+  topSongs,
+  type StatsFilter,
+} from "./stats";
+
+const SONGS_HELP = [
+  "`/songs top [7d|30d|all]` – most shared songs",
+  "`/songs who [7d|30d|all]` – top sharers",
+  "`/songs rated [7d|30d|all]` – songs this channel reacted to most",
+  "`/songs me` – your recent shares",
+  "`/songs channel` – stats for this channel",
+  "`/songs search <query>` – find songs by title, artist or album",
+  "`/songs digest [on|off] [day] [hour]` – weekly digest for this channel",
+  "`/songs feed [on|off|rotate]` – RSS, Atom, JSON Feed, M3U and XSPF feeds of this channel's shares",
+  "`/songs playlist [spotify] [on [weekly|albums]|off|connect]` – YouTube or Spotify playlists of this channel's shares",
+].join("\n");
+
+const DAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+function describeDigest(settings: ChannelSettings): string {
+  if (!settings.digest_enabled) {
+    return "The weekly digest is off for this channel. Turn it on with `/songs digest on [day] [hour]`.";
+  }
+
+  const day = DAYS[settings.digest_day];
+  const hour = String(settings.digest_hour).padStart(2, "0");
+  return `The weekly digest is posted here every ${day[0].toUpperCase()}${day.slice(1)} at ${hour}:00 UTC.`;
+}
+
+// `/songs digest [on|off] [day] [hour]`, e.g. `/songs digest on friday 16`
+async function handleDigestCommand(
+  args: string[],
+  channel: string,
+  db: D1Database,
+): Promise<SlackCommandResponse> {
+  const [action, dayArg, hourArg] = args.map((arg) => arg.toLowerCase());
+
+  if (action === "off") {
+    await updateChannelSettings(db, channel, { digest_enabled: false });
+  } else if (action === "on") {
+    const changes: Partial<ChannelSettings> = { digest_enabled: true };
+
+    if (dayArg) {
+      const day = DAYS.findIndex((name) => name.startsWith(dayArg.slice(0, 3)));
+      if (day === -1) {
+        return ephemeral(`Unknown day "${dayArg}". Try monday, tuesday, …`);
+      }
+      changes.digest_day = day;
+    }
+
+    if (hourArg) {
+      const hour = parseInt(hourArg.replace(/:00$/, ""), 10);
+      if (!(hour >= 0 && hour <= 23)) {
+        return ephemeral(`Unknown hour "${hourArg}". Use 0–23 (UTC).`);
+      }
+      changes.digest_hour = hour;
+    }
+
+    await updateChannelSettings(db, channel, changes);
+  } else if (action) {
+    return ephemeral("Usage: `/songs digest [on|off] [day] [hour]`");
+  }
+
+  return ephemeral(describeDigest(await getChannelSettings(db, channel)));
+}
+
+// What `/songs playlist` reports about a channel's sync for each provider
+function describePlaylistSync(
+  provider: OAuthProvider,
+  settings: ChannelSettings,
+): string {
+  if (provider === "spotify") {
+    if (!settings.spotify_playlist_enabled) {
+      return "Spotify playlist sync is off for this channel. Turn it on with `/songs playlist spotify on [albums]`.";
+    }
+    return settings.spotify_album_tracks
+      ? "Shared songs and every track of shared albums are added to this channel's Spotify playlist every hour."
+      : "Shared songs are added to this channel's Spotify playlist every hour. Albums are skipped.";
+  }
+
+  if (!settings.youtube_playlist_enabled) {
+    return "YouTube playlist sync is off for this channel. Turn it on with `/songs playlist on [weekly]`.";
+  }
+  return settings.youtube_weekly_playlists
+    ? "Shared YouTube videos are added to this channel's playlist and a playlist for each week, every hour."
+    : "Shared YouTube videos are added to this channel's playlist every hour.";
+}
+
+// `/songs playlist [spotify] [on [weekly|albums]|off|connect]`. YouTube is
+// the default; `weekly` applies to YouTube and `albums` to Spotify.
+async function handlePlaylistCommand(
+  args: string[],
+  command: SlackCommand,
+  env: Env,
+  origin: string,
+): Promise<SlackCommandResponse> {
+  const lowerArgs = args.map((arg) => arg.toLowerCase());
+  const provider: OAuthProvider =
+    lowerArgs[0] === "spotify" || lowerArgs[0] === "youtube"
+      ? (lowerArgs.shift() as OAuthProvider)
+      : "youtube";
+  const [action, option] = lowerArgs;
+  const channel = command.channel_id;
+  const name = provider === "spotify" ? "Spotify" : "YouTube";
+
+  const configured =
+    provider === "spotify"
+      ? env.SPOTIFY_CLIENT_ID && env.SPOTIFY_CLIENT_SECRET
+      : env.YOUTUBE_CLIENT_ID && env.YOUTUBE_CLIENT_SECRET;
+  if (!configured) {
+    return ephemeral(`${name} playlist sync isn't set up for this app.`);
+  }
+
+  if (action === "connect") {
+    if (!(await getBotToken(env, command.team_id))) {
+      return ephemeral(
+        `Install the app in this workspace before connecting a ${name} account.`,
+      );
+    }
+
+    const state = await createOAuthState(env.SLACK_SIGNING_SECRET, {
+      user: command.user_id,
+      team: command.team_id,
+      provider,
+    });
+    return ephemeral(
+      `<${origin}/${provider}/connect?state=${state}|Connect a ${name} account> to create playlists in. The link expires in 15 minutes.`,
+    );
+  }
+
+  if (action === "on" || action === "off") {
+    await updateChannelSettings(
+      env.DB,
+      channel,
+      provider === "spotify"
+        ? {
+            team_id: command.team_id,
+            spotify_playlist_enabled: action === "on",
+            ...(action === "on" && {
+              spotify_album_tracks: option === "albums",
+            }),
+          }
+        : {
+            team_id: command.team_id,
+            youtube_playlist_enabled: action === "on",
+            ...(action === "on" && {
+              youtube_weekly_playlists: option === "weekly",
+            }),
+          },
+    );
+  } else if (action) {
+    return ephemeral(
+      "Usage: `/songs playlist [spotify] [on [weekly|albums]|off|connect]`",
+    );
+  }
+
+  const [settings, playlists] = await Promise.all([
+    getChannelSettings(env.DB, channel),
+    listChannelPlaylists(env.DB, provider, command.team_id, channel),
+  ]);
+
+  const text = describePlaylistSync(provider, settings);
+  const links = playlists
+    .slice(0, 10)
+    .map((playlist) => `• <${playlist.url}|${escapeMrkdwn(playlist.title)}>`)
+    .join("\n");
+
+  return ephemeral(text, [
+    section(text),
+    ...(links ? [section(`*Playlists*\n${links}`)] : []),
+  ]);
+}
+
+// `/songs feed [on|off|rotate]`. Feeds of private channels get a secret
+// token; `rotate` replaces it, breaking the old URLs.
+async function handleFeedCommand(
+  args: string[],
+  command: SlackCommand,
+  env: Env,
+  origin: string,
+): Promise<SlackCommandResponse> {
+  const action = args[0]?.toLowerCase();
+  const channel = command.channel_id;
+
+  if (action === "off") {
+    await updateChannelSettings(env.DB, channel, { feed_enabled: false });
+  } else if (action === "on" || action === "rotate") {
+    const botToken = await getBotToken(env, command.team_id);
+    const info = botToken ? await getChannelInfo(botToken, channel) : null;
+    const current = await getChannelSettings(env.DB, channel);
+    const keepToken = action === "on" && current.feed_token;
+
+    await updateChannelSettings(env.DB, channel, {
+      feed_enabled: true,
+      // Channels the bot can't look up are treated as private
+      feed_token: info && !info.is_private ? null : keepToken || randomToken(),
+    });
+  } else if (action) {
+    return ephemeral("Usage: `/songs feed [on|off|rotate]`");
+  }
+
+  const settings = await getChannelSettings(env.DB, channel);
+  if (!settings.feed_enabled) {
+    return ephemeral(
+      "Feeds are off for this channel. Turn them on with `/songs feed on`.",
+    );
+  }
+
+  const urls = channelFeedUrls(origin, channel, settings.feed_token);
+  const text = settings.feed_token
+    ? "Feeds of this channel's songs. They include a secret token, so only share them with people in the channel. Add `&from=` and `&to=` (ISO dates) for a date window."
+    : "Feeds of this channel's songs. Add `?from=` and `?to=` (ISO dates) for a date window.";
+  const links = [
+    `• RSS: ${urls.rss}`,
+    `• Atom: ${urls.atom}`,
+    `• JSON Feed: ${urls.json}`,
+    `• M3U playlist: ${urls.m3u}`,
+    `• XSPF playlist: ${urls.xspf}`,
+  ].join("\n");
+
+  return ephemeral(text, [section(text), section(links)]);
+}
+
+// Parse a period like "7d", "30d" or "all" into a SQLite datetime modifier
+function parsePeriod(
+  arg: string | undefined,
+  fallback: string,
+): { since?: string; label: string } | null {
+  const period = arg?.toLowerCase() || fallback;
+
+  if (period === "all") {
+    return { label: "all time" };
+  }
+
+  const match = period.match(/^(\d{1,4})d$/);
+  return match
+    ? { since: `-${match[1]} days`, label: `the last ${match[1]} days` }
+    : null;
+}
+
+function songRows(songs: SongCount[]): string {
+  return songs
+    .map(
+      (song, i) =>
+        `${i + 1}. ${songLine(song)} – ${plural(song.shares, "share")}`,
+    )
+    .join("\n");
+}
+
+function ratedRows(songs: RatedSong[]): string {
+  return songs
+    .map(
+      (song, i) =>
+        `${i + 1}. ${songLine(song)} – ${song.emoji
+          .map((emoji) => `:${emoji.name}: ${emoji.count}`)
+          .join("  ")}`,
+    )
+    .join("\n");
+}
+
+function shareRows(shares: ShareSummary[]): string {
+  return shares
+    .map(
+      (share) =>
+        `• ${songLine(share)} – <#${share.channel}>, ${slackDate(share.shared_at)}`,
+    )
+    .join("\n");
+}
+
+function searchRows(shares: ShareSummary[]): string {
+  return shares
+    .map(
+      (share) =>
+        `• ${songLine(share)}\n   shared by <@${share.shared_by}> in <#${share.channel}>, ${slackDate(share.shared_at)} · <${messagePermalink(share.channel, share.message_ts)}|view message>`,
+    )
+    .join("\n");
+}
+
+function ephemeral(text: string, blocks?: SlackBlock[]): SlackCommandResponse {
+  return { response_type: "ephemeral", text, blocks };
+}
+
+// Workspace-wide lists only show shares from public channels, as not
+// everyone running the command is in the private channels and DMs; look up
+// the channels that aren't known yet first
+async function refreshTeamChannels(env: Env, team: string): Promise<void> {
+  await refreshChannelVisibility(env.DB, await getBotToken(env, team), team);
+}
+
+// Handle `/songs <subcommand> [args]`. `origin` is the worker's own URL, for
+// links back to it.
+export async function handleSongsCommand(
+  command: SlackCommand,
+  env: Env,
+  origin: string,
+): Promise<SlackCommandResponse> {
+  const db = env.DB;
+  const [subcommand = "", ...args] = command.text.trim().split(/\s+/);
+
+  switch (subcommand.toLowerCase()) {
+    case "top": {
+      const period = parsePeriod(args[0], "7d");
+      if (!period) {
+        return ephemeral(`Unknown period "${args[0]}". Try 7d, 30d or all.`);
+      }
+
+      await refreshTeamChannels(env, command.team_id);
+      const songs = await topSongs(db, {
+        since: period.since,
+        team: command.team_id,
+        publicOnly: true,
+      });
+      const heading = `🏆 Most shared songs in ${period.label}`;
+      return ephemeral(heading, [
+        section(`*${heading}*`),
+        section(songs.length > 0 ? songRows(songs) : "Nothing shared yet."),
+      ]);
+    }
+
+    case "who": {
+      const period = parsePeriod(args[0], "30d");
+      if (!period) {
+        return ephemeral(`Unknown period "${args[0]}". Try 7d, 30d or all.`);
+      }
+
+      await refreshTeamChannels(env, command.team_id);
+      const sharers = await topSharers(db, {
+        since: period.since,
+        team: command.team_id,
+        publicOnly: true,
+      });
+      const heading = `🎧 Top sharers in ${period.label}`;
+      return ephemeral(heading, [
+        section(`*${heading}*`),
+        section(
+          sharers.length > 0 ? sharerRows(sharers) : "Nothing shared yet.",
+        ),
+      ]);
+    }
+
+    case "rated": {
+      const period = parsePeriod(args[0], "30d");
+      if (!period) {
+        return ephemeral(`Unknown period "${args[0]}". Try 7d, 30d or all.`);
+      }
+
+      const songs = await topRatedSongs(db, {
+        since: period.since,
+        channel: command.channel_id,
+      });
+      const heading = `🔥 Most loved songs in <#${command.channel_id}> in ${period.label}`;
+      return ephemeral(heading, [
+        section(`*${heading}*`),
+        section(
+          songs.length > 0 ? ratedRows(songs) : "No reactions to shares yet.",
+        ),
+      ]);
+    }
+
+    case "me": {
+      const filter: StatsFilter = {
+        team: command.team_id,
+        user: command.user_id,
+      };
+      const [totals, shares] = await Promise.all([
+        shareTotals(db, filter),
+        recentShares(db, filter),
+      ]);
+
+      const heading = `🎵 You've shared ${plural(totals.shares, "song")}`;
+      return ephemeral(heading, [
+        section(`*${heading}* (${totals.songs} unique)`),
+        ...(shares.length > 0
+          ? [section(`*Most recent*\n${shareRows(shares)}`)]
+          : []),
+      ]);
+    }
+
+    case "channel": {
+      const filter: StatsFilter = { channel: command.channel_id };
+      const [totals, songs, sharers] = await Promise.all([
+        shareTotals(db, filter),
+        topSongs(db, filter, 5),
+        topSharers(db, filter, 5),
+      ]);
+
+      const heading = `📊 Songs in <#${command.channel_id}>`;
+      return ephemeral(`Songs in this channel: ${totals.shares}`, [
+        {
+          type: "section",
+          text: { type: "mrkdwn", text: `*${heading}*` },
+          fields: [
+            { type: "mrkdwn", text: `*Shares*\n${totals.shares}` },
+            { type: "mrkdwn", text: `*Unique songs*\n${totals.songs}` },
+            { type: "mrkdwn", text: `*Sharers*\n${totals.sharers}` },
+          ],
+        },
+        ...(songs.length > 0
+          ? [section(`*Most shared*\n${songRows(songs)}`)]
+          : []),
+        ...(sharers.length > 0
+          ? [section(`*Top sharers*\n${sharerRows(sharers)}`)]
+          : []),
+      ]);
+    }
+
+    case "search": {
+      const query = args.join(" ");
+      if (!query) {
+        return ephemeral("Usage: `/songs search <query>`");
+      }
+
+      await refreshTeamChannels(env, command.team_id);
+      const shares = await searchSongShares(
+        db,
+        query,
+        command.team_id,
+        command.channel_id,
+      );
+      const heading = `🔎 Songs matching "${escapeMrkdwn(query)}"`;
+      return ephemeral(heading, [
+        section(`*${heading}*`),
+        section(shares.length > 0 ? searchRows(shares) : "No matches."),
+      ]);
+    }
+
+    case "digest":
+      return handleDigestCommand(args, command.channel_id, db);
+
+    case "playlist":
+      return handlePlaylistCommand(args, command, env, origin);
+
+    case "feed":
+      return handleFeedCommand(args, command, env, origin);
+
+    default:
+      return ephemeral(SONGS_HELP, [section(`*Usage*\n${SONGS_HELP}`)]);
+  }
+}
@@ -0,0 +1,220 @@
+import type {
+  ChannelSettings,
+  Env,
+  ReplyMode,
+  SlackCommand,
+  SlackCommandResponse,
+  SlackModalView,
+  SlackOption,
+  SlackViewSubmission,
+} from "./types";
+import { PLATFORM_LABELS } from "./blocks";
+import { getBotToken } from "./installations";
+import { lookUpSongForCommand } from "./lookup";
+import { getChannelSettings, updateChannelSettings } from "./settings";
+import { callSlack } from "./slack";
+
+// callback_id of the `/songlink config` modal, to recognise its submissions
+export const CONFIG_VIEW_ID = "songlink_config";
+
+const SONGLINK_HELP = [
+  "`/songlink <song or artist>` – find links for a song on every platform",
+  "`/songlink config` – set how the bot behaves in this channel",
+].join("\n");
+
+const REPLY_MODES: Array<[ReplyMode, string]> = [
+  ["thread", "Reply in a thread"],
+  ["channel", "Reply in the channel"],
+  ["ephemeral", "Reply only to the person who shared"],
+  ["unfurl", "Attach a card to the message itself (unfurl)"],
+];
+
+// On/off settings shown as checkboxes, in display order
+const OPTIONS: Array<[keyof ChannelSettings, string]> = [
+  ["enabled", "Link songs shared in this channel"],
+  ["youtube_embed", "Include the YouTube video"],
+  [
+    "store_shares",
+    "Keep a history of shares (stats, digests, playlists and feeds)",
+  ],
+  ["youtube_fallback", "Search YouTube when song.link can't find a song"],
+  ["show_duplicates", "Point out songs that were shared before"],
+];
+
+function option(value: string, label: string): SlackOption {
+  return { text: { type: "plain_text", text: label }, value };
+}
+
+// Slack rejects an empty initial_options, so leave it out instead
+function initialOptions(options: SlackOption[]): SlackOption[] | undefined {
+  return options.length > 0 ? options : undefined;
+}
+
+// The `/songlink config` modal, filled in with the channel's settings. The
+// channel travels in private_metadata.
+export function buildConfigModal(
+  channel: string,
+  settings: ChannelSettings,
+): SlackModalView {
+  const options = OPTIONS.map(([key, label]) => option(key, label));
+  const modes = REPLY_MODES.map(([mode, label]) => option(mode, label));
+  const platforms = PLATFORM_LABELS.map(([platform, label]) =>
+    option(platform, label),
+  );
+
+  return {
+    type: "modal",
+    callback_id: CONFIG_VIEW_ID,
+    private_metadata: channel,
+    title: { type: "plain_text", text: "Song links" },
+    submit: { type: "plain_text", text: "Save" },
+    close: { type: "plain_text", text: "Cancel" },
+    blocks: [
+      {
+        type: "section",
+        text: { type: "mrkdwn", text: `Settings for <#${channel}>` },
+      },
+      {
+        type: "input",
+        block_id: "options",
+        label: { type: "plain_text", text: "Options" },
+        optional: true,
+        element: {
+          type: "checkboxes",
+          action_id: "options",
+          options,
+          initial_options: initialOptions(
+            options.filter((_, i) => settings[OPTIONS[i][0]] === true),
+          ),
+        },
+      },
+      {
+        type: "input",
+        block_id: "reply_mode",
+        label: { type: "plain_text", text: "Replies" },
+        element: {
+          type: "radio_buttons",
+          action_id: "reply_mode",
+          options: modes,
+          initial_option: modes.find(
+            (mode) => mode.value === settings.reply_mode,
+          ),
+        },
+      },
+      {
+        type: "input",
+        block_id: "platforms",
+        label: { type: "plain_text", text: "Platform buttons" },
+        optional: true,
+        element: {
+          type: "multi_static_select",
+          action_id: "platforms",
+          options: platforms,
+          initial_options: initialOptions(
+            platforms.filter(
+              (_, i) =>
+                !settings.platforms ||
+                settings.platforms.includes(PLATFORM_LABELS[i][0]),
+            ),
+          ),
+          placeholder: { type: "plain_text", text: "No buttons" },
+        },
+      },
+    ],
+  };
+}
+
+// The settings chosen in a submitted config modal
+export function parseConfigSubmission(
+  view: SlackViewSubmission["view"],
+): Partial<ChannelSettings> {
+  const values = view.state.values;
+  const checked = new Set(
+    values.options?.options?.selected_options?.map((option) => option.value),
+  );
+  const mode = values.reply_mode?.reply_mode?.selected_option?.value;
+  const platforms = (values.platforms?.platforms?.selected_options ?? []).map(
+    (option) => option.value,
+  );
+
+  const changes: Partial<ChannelSettings> = Object.fromEntries(
+    OPTIONS.map(([key]) => [key, checked.has(key)]),
+  );
+
+  if (REPLY_MODES.some(([value]) => value === mode)) {
+    changes.reply_mode = mode as ReplyMode;
+  }
+
+  // Everything selected is stored as "all", so platforms added later show up
+  changes.platforms =
+    platforms.length === PLATFORM_LABELS.length
+      ? null
+      : PLATFORM_LABELS.map(([platform]) => platform).filter((platform) =>
+          platforms.includes(platform),
+        );
+
+  return changes;
+}
+
+export async function handleConfigSubmission(
+  payload: SlackViewSubmission,
+  db: D1Database,
+): Promise<void> {
+  const channel = payload.view.private_metadata;
+  await updateChannelSettings(db, channel, parseConfigSubmission(payload.view));
+}
+
+// Handle `/songlink <subcommand>`. `config` opens the settings modal, which
+// has to happen while the command's trigger_id is still valid; anything else
+// is a song to look up, answered through response_url once it's found. null
+// means there's nothing to say back.
+export async function handleSonglinkCommand(
+  command: SlackCommand,
+  env: Env,
+  ctx: Pick<ExecutionContext, "waitUntil">,
+): Promise<SlackCommandResponse | null> {
+  const query = command.text.trim();
+
+  if (!query || query.toLowerCase() === "help") {
+    return { response_type: "ephemeral", text: SONGLINK_HELP };
+  }
+
+  if (query.toLowerCase() !== "config") {
+    if (!env.YOUTUBE_API_KEY) {
+      return {
+        response_type: "ephemeral",
+        text: "⚠️ Searching for songs needs a YouTube API key, which isn't set up.",
+      };
+    }
+
+    ctx.waitUntil(lookUpSongForCommand(command, env));
+    return {
+      response_type: "ephemeral",
+      text: `🔎 Looking for "${query}"…`,
+    };
+  }
+
+  const botToken = await getBotToken(env, command.team_id);
+  if (!botToken) {
+    return {
+      response_type: "ephemeral",
+      text: "⚠️ The app isn't installed in this workspace.",
+    };
+  }
+
+  const settings = await getChannelSettings(env.DB, command.channel_id);
+  const result = await callSlack("views.open", botToken, {
+    trigger_id: command.trigger_id,
+    view: buildConfigModal(command.channel_id, settings),
+  });
+
+  if (!result.ok) {
+    console.error("Slack API error opening config:", result.error);
+    return {
+      response_type: "ephemeral",
+      text: "⚠️ Sorry, I couldn't open the settings. Please try again.",
+    };
+  }
+
+  return null;
+}
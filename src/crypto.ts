@@ -0,0 +1,33 @@
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Hex-encoded HMAC-SHA256 of a message
+export async function hmacSha256Hex(
+  secret: string,
+  message: string,
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+
+  return toHex(await crypto.subtle.sign("HMAC", key, encoder.encode(message)));
+}
+
+// Hex-encoded SHA-256 digest of a message
+export async function sha256Hex(message: string): Promise<string> {
+  return toHex(await crypto.subtle.digest("SHA-256", encoder.encode(message)));
+}
+
+// A random hex token, e.g. for secret URLs
+export function randomToken(bytes = 24): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(bytes)).buffer);
+}
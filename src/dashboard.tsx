@@ -0,0 +1,550 @@
+import { Hono, type Context } from "hono";
+import { raw } from "hono/html";
+import type { Child, FC } from "hono/jsx";
+import type {
+  Env,
+  SharedSongRecord,
+  SlackIdToken,
+  SongLinkPlatform,
+  WeeklyShareCount,
+} from "./types";
+import { decodeCursor, encodeCursor } from "./api";
+import { PLATFORM_LABELS } from "./blocks";
+import { refreshChannelVisibility } from "./channels";
+import { randomToken } from "./crypto";
+import { getBotToken, isInstalled } from "./installations";
+import { createOAuthState, verifyOAuthState } from "./oauth";
+import { listSongShares, type SongShareFilter } from "./shares";
+import {
+  endSession,
+  exchangeSlackSignInCode,
+  getSession,
+  slackSignInUrl,
+  startSession,
+  type DashboardSession,
+} from "./signin";
+import { channelName, userName } from "./slack";
+import {
+  listShareChannels,
+  sharesPerWeek,
+  shareTotals,
+  topArtists,
+  topSongs,
+  type StatsFilter,
+} from "./stats";
+
+const PAGE_SIZE = 30;
+
+type DashboardContext = Context<{
+  Bindings: Env;
+  Variables: { session: DashboardSession };
+}>;
+
+const STYLES = `
+  body { font-family: system-ui, sans-serif; margin: 0; color: #1d1c1d; background: #f8f8f8; }
+  header { background: #3f0e40; color: #fff; padding: 0.75rem 1.5rem; display: flex; gap: 1.5rem; align-items: center; }
+  header a { color: #fff; text-decoration: none; }
+  header .me { margin-left: auto; opacity: 0.8; }
+  main { max-width: 960px; margin: 0 auto; padding: 1.5rem; }
+  form.filters { display: flex; flex-wrap: wrap; gap: 0.5rem; margin-bottom: 1rem; }
+  .share { display: flex; gap: 1rem; background: #fff; border-radius: 8px; padding: 0.75rem; margin-bottom: 0.5rem; }
+  .share img { width: 72px; height: 72px; object-fit: cover; border-radius: 4px; }
+  .share .art { width: 72px; height: 72px; background: #ddd; border-radius: 4px; flex-shrink: 0; }
+  .share h3 { margin: 0 0 0.25rem; font-size: 1rem; }
+  .meta, .links { font-size: 0.85rem; color: #616061; }
+  .links a { margin-right: 0.5rem; }
+  .cards { display: flex; gap: 1rem; margin-bottom: 1.5rem; }
+  .card { background: #fff; border-radius: 8px; padding: 1rem; flex: 1; }
+  .card strong { display: block; font-size: 1.75rem; }
+  .bar { display: flex; align-items: center; gap: 0.5rem; margin: 0.25rem 0; font-size: 0.9rem; }
+  .bar span:first-child { width: 12rem; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  .bar div { background: #1264a3; height: 1rem; border-radius: 2px; }
+  svg.chart rect { fill: #1264a3; }
+`;
+
+function platformLabel(platform: string): string {
+  return PLATFORM_LABELS.find(([key]) => key === platform)?.[1] ?? platform;
+}
+
+function sharedDate(sharedAt: string): string {
+  return sharedAt.slice(0, 10);
+}
+
+// Display names for users and channels, looked up once each. Without a bot
+// token for the workspace, ids are shown instead.
+async function lookupNames(
+  botToken: string | undefined,
+  userIds: string[],
+  channelIds: string[],
+): Promise<Map<string, string>> {
+  const users = [...new Set(userIds)];
+  const channels = [...new Set(channelIds)];
+  const names = await Promise.all([
+    ...users.map((user) => (botToken ? userName(botToken, user) : user)),
+    ...channels.map((channel) => channelName(botToken, channel)),
+  ]);
+
+  return new Map([...users, ...channels].map((id, i) => [id, names[i]]));
+}
+
+function queryString(params: Record<string, string | undefined>): string {
+  const query = new URLSearchParams(
+    Object.entries(params).filter(
+      (entry): entry is [string, string] => !!entry[1],
+    ),
+  ).toString();
+  return query ? `?${query}` : "";
+}
+
+const Layout: FC<{
+  title: string;
+  session?: DashboardSession;
+  children?: Child;
+}> = ({ title, session, children }) => (
+  <>
+    {raw("<!DOCTYPE html>")}
+    <html lang="en">
+      <head>
+        <meta charset="utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <title>{title} · Songlink</title>
+        <style>{STYLES}</style>
+      </head>
+      <body>
+        <header>
+          <strong>🎵 Songlink</strong>
+          {session && (
+            <>
+              <a href="/dashboard">Timeline</a>
+              <a href="/dashboard/stats">Stats</a>
+              <a href={`/dashboard/users/${session.user}`}>My shares</a>
+              <span class="me">
+                {session.name} · <a href="/dashboard/logout">Sign out</a>
+              </span>
+            </>
+          )}
+        </header>
+        <main>
+          <h1>{title}</h1>
+          {children}
+        </main>
+      </body>
+    </html>
+  </>
+);
+
+const SignInFailed: FC = () => (
+  <Layout title="Sign in failed">
+    <p>
+      Slack couldn't confirm who you are.{" "}
+      <a href="/dashboard/login">Try again</a>
+    </p>
+  </Layout>
+);
+
+const NotInstalled: FC = () => (
+  <Layout title="Not installed">
+    <p>
+      Only members of workspaces the app is installed in can see the dashboard.
+    </p>
+  </Layout>
+);
+
+const ShareItem: FC<{
+  song: SharedSongRecord;
+  names: Map<string, string>;
+}> = ({ song, names }) => {
+  const links = Object.entries(song.platform_links ?? {}).filter(([platform]) =>
+    PLATFORM_LABELS.some(([key]) => key === (platform as SongLinkPlatform)),
+  );
+
+  return (
+    <div class="share">
+      {song.thumbnail_url ? (
+        <img src={song.thumbnail_url} alt="" loading="lazy" />
+      ) : (
+        <div class="art" />
+      )}
+      <div>
+        <h3>
+          <a href={song.songlink_url ?? song.original_url}>
+            {song.title ?? song.original_url}
+          </a>
+        </h3>
+        <div class="meta">
+          Shared by{" "}
+          <a href={`/dashboard/users/${song.shared_by}`}>
+            {names.get(song.shared_by) ?? song.shared_by}
+          </a>{" "}
+          in{" "}
+          <a href={`/dashboard${queryString({ channel: song.channel })}`}>
+            {names.get(song.channel) ?? song.channel}
+          </a>{" "}
+          on {sharedDate(song.shared_at)}
+          {song.source_platform &&
+            ` · from ${platformLabel(song.source_platform)}`}
+        </div>
+        <div class="links">
+          {links.map(([platform, url]) => (
+            <a href={url}>{platformLabel(platform)}</a>
+          ))}
+          {song.youtube_url && !song.platform_links?.youtube && (
+            <a href={song.youtube_url}>YouTube</a>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Horizontal bars, e.g. for top artists
+const BarList: FC<{ rows: Array<{ label: string; value: number }> }> = ({
+  rows,
+}) => {
+  const max = Math.max(1, ...rows.map((row) => row.value));
+  return (
+    <div>
+      {rows.map((row) => (
+        <div class="bar">
+          <span>{row.label}</span>
+          <div style={`width: ${(row.value / max) * 60}%`} />
+          <span>{row.value}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Weeks between the first and last given, including ones without shares
+function fillWeeks(weeks: WeeklyShareCount[]): WeeklyShareCount[] {
+  if (weeks.length === 0) {
+    return [];
+  }
+
+  const counts = new Map(weeks.map((week) => [week.week, week.shares]));
+  const filled: WeeklyShareCount[] = [];
+  const last = weeks[weeks.length - 1].week;
+
+  for (
+    let date = new Date(`${weeks[0].week}T00:00:00Z`);
+    date.toISOString().slice(0, 10) <= last;
+    date.setUTCDate(date.getUTCDate() + 7)
+  ) {
+    const week = date.toISOString().slice(0, 10);
+    filled.push({ week, shares: counts.get(week) ?? 0 });
+  }
+  return filled;
+}
+
+// Column chart of shares per week
+const WeeklyChart: FC<{ weeks: WeeklyShareCount[] }> = ({ weeks }) => {
+  const max = Math.max(1, ...weeks.map((week) => week.shares));
+  const width = 12;
+  const height = 120;
+  return (
+    <svg
+      class="chart"
+      viewBox={`0 0 ${Math.max(weeks.length, 1) * width} ${height}`}
+      width="100%"
+      height={height}
+      preserveAspectRatio="none"
+      role="img"
+      aria-label="Shares per week"
+    >
+      {weeks.map((week, i) => {
+        const barHeight = (week.shares / max) * height;
+        return (
+          <rect
+            x={i * width + 1}
+            y={height - barHeight}
+            width={width - 2}
+            height={barHeight}
+          >
+            <title>{`Week of ${week.week}: ${week.shares}`}</title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+};
+
+// Browse the song archive at /dashboard. Everything except signing in needs
+// a Sign in with Slack session from a workspace the bot is installed in, and
+// only shows that workspace's shares from public channels.
+export const dashboard = new Hono<{
+  Bindings: Env;
+  Variables: { session: DashboardSession };
+}>();
+
+dashboard.get("/login", async (c) => {
+  if (!c.env.SLACK_CLIENT_ID || !c.env.SLACK_CLIENT_SECRET) {
+    return c.text("Sign in with Slack isn't configured for this app.", 500);
+  }
+
+  const returnTo = c.req.query("return_to");
+  const nonce = randomToken();
+  const state = await createOAuthState(c.env.SLACK_SIGNING_SECRET, {
+    nonce,
+    return_to: returnTo?.startsWith("/dashboard") ? returnTo : "/dashboard",
+  });
+  const redirectUri = `${new URL(c.req.url).origin}/dashboard/auth/callback`;
+
+  return c.redirect(
+    slackSignInUrl(c.env.SLACK_CLIENT_ID, redirectUri, state, nonce),
+  );
+});
+
+dashboard.get("/auth/callback", async (c) => {
+  const state = await verifyOAuthState(
+    c.env.SLACK_SIGNING_SECRET,
+    c.req.query("state"),
+  );
+  const code = c.req.query("code");
+
+  if (!state || !code) {
+    return c.redirect("/dashboard/login");
+  }
+
+  const redirectUri = `${new URL(c.req.url).origin}/dashboard/auth/callback`;
+  let claims: SlackIdToken;
+  try {
+    claims = await exchangeSlackSignInCode(c.env, code, redirectUri);
+  } catch (error) {
+    // Expired, replayed or forged codes
+    console.error("Error signing in with Slack:", error);
+    return c.html(<SignInFailed />, 400);
+  }
+  const team = claims["https://slack.com/team_id"];
+
+  if (claims.nonce !== state.nonce) {
+    return c.html(<SignInFailed />, 400);
+  }
+
+  if (!(await isInstalled(c.env, team))) {
+    return c.html(<NotInstalled />, 403);
+  }
+
+  await startSession(c, {
+    user: claims.sub,
+    name: claims.name ?? claims.sub,
+    team,
+  });
+  return c.redirect(state.return_to);
+});
+
+dashboard.get("/logout", (c) => {
+  endSession(c);
+  return c.html(
+    <Layout title="Signed out">
+      <p>
+        <a href="/dashboard/login">Sign in again</a>
+      </p>
+    </Layout>,
+  );
+});
+
+dashboard.use("*", async (c, next) => {
+  const session = await getSession(c);
+  if (!session) {
+    const url = new URL(c.req.url);
+    return c.redirect(
+      `/dashboard/login${queryString({ return_to: url.pathname + url.search })}`,
+    );
+  }
+
+  // The app may have been uninstalled since they signed in
+  if (!(await isInstalled(c.env, session.team))) {
+    endSession(c);
+    return c.html(<NotInstalled />, 403);
+  }
+
+  c.set("session", session);
+
+  // Pages only list shares from public channels, as not everyone signed in
+  // is in the workspace's private channels and DMs
+  await refreshChannelVisibility(
+    c.env.DB,
+    await getBotToken(c.env, session.team),
+    session.team,
+  );
+  await next();
+});
+
+// Timeline of shares, newest first, filterable by channel, sharer and platform
+dashboard.get("/", async (c: DashboardContext) => {
+  const channel = c.req.query("channel");
+  const user = c.req.query("user");
+  const platform = c.req.query("platform");
+  const cursor = c.req.query("cursor");
+  const { team } = c.get("session");
+  const filter: SongShareFilter = {
+    team,
+    channel,
+    user,
+    platform,
+    publicOnly: true,
+    after: cursor ? decodeCursor(cursor) : undefined,
+  };
+
+  const [songs, channels] = await Promise.all([
+    listSongShares(c.env.DB, filter, PAGE_SIZE + 1),
+    listShareChannels(c.env.DB, team, true),
+  ]);
+  const page = songs.slice(0, PAGE_SIZE);
+  const names = await lookupNames(
+    await getBotToken(c.env, team),
+    [...page.map((song) => song.shared_by), ...(user ? [user] : [])],
+    channels,
+  );
+
+  return c.html(
+    <Layout title="Timeline" session={c.get("session")}>
+      <form class="filters" method="get">
+        <select name="channel">
+          <option value="">All channels</option>
+          {channels.map((id) => (
+            <option value={id} selected={id === channel}>
+              {names.get(id)}
+            </option>
+          ))}
+        </select>
+        <select name="platform">
+          <option value="">Shared from any platform</option>
+          {PLATFORM_LABELS.map(([key, label]) => (
+            <option value={key} selected={key === platform}>
+              {label}
+            </option>
+          ))}
+        </select>
+        {user && (
+          <label>
+            <input type="checkbox" name="user" value={user} checked /> Only{" "}
+            {names.get(user)}
+          </label>
+        )}
+        <button type="submit">Filter</button>
+      </form>
+      {page.length === 0 && <p>Nothing shared yet.</p>}
+      {page.map((song) => (
+        <ShareItem song={song} names={names} />
+      ))}
+      {songs.length > PAGE_SIZE && (
+        <p>
+          <a
+            href={`/dashboard${queryString({
+              channel,
+              user,
+              platform,
+              cursor: encodeCursor(page[page.length - 1]),
+            })}`}
+          >
+            Older shares →
+          </a>
+        </p>
+      )}
+    </Layout>,
+  );
+});
+
+// Shares over time and top artists, for a channel or everywhere
+dashboard.get("/stats", async (c: DashboardContext) => {
+  const channel = c.req.query("channel");
+  const { team } = c.get("session");
+  const filter: StatsFilter = { team, channel, publicOnly: true };
+  const weeksFilter: StatsFilter = { ...filter, since: "-182 days" };
+
+  const [totals, weeks, artists, songs] = await Promise.all([
+    shareTotals(c.env.DB, filter),
+    sharesPerWeek(c.env.DB, weeksFilter),
+    topArtists(c.env.DB, filter, 15),
+    topSongs(c.env.DB, filter, 10),
+  ]);
+  const title = channel
+    ? `Stats for ${await channelName(await getBotToken(c.env, team), channel)}`
+    : "Stats";
+
+  return c.html(
+    <Layout title={title} session={c.get("session")}>
+      <div class="cards">
+        <div class="card">
+          <strong>{totals.shares}</strong>shares
+        </div>
+        <div class="card">
+          <strong>{totals.songs}</strong>unique songs
+        </div>
+        <div class="card">
+          <strong>{totals.sharers}</strong>sharers
+        </div>
+      </div>
+      <h2>Shares per week, last 6 months</h2>
+      <WeeklyChart weeks={fillWeeks(weeks)} />
+      <h2>Top artists</h2>
+      <BarList
+        rows={artists.map((artist) => ({
+          label: artist.artist,
+          value: artist.shares,
+        }))}
+      />
+      <h2>Most shared songs</h2>
+      <BarList
+        rows={songs.map((song) => ({
+          label: song.title ?? song.songlink_url ?? "Unknown",
+          value: song.shares,
+        }))}
+      />
+    </Layout>,
+  );
+});
+
+// A sharer's totals, favourite artists and recent shares
+dashboard.get("/users/:id", async (c: DashboardContext) => {
+  const user = c.req.param("id");
+  const { team } = c.get("session");
+  const filter: StatsFilter = { team, user, publicOnly: true };
+
+  const [totals, artists, recent] = await Promise.all([
+    shareTotals(c.env.DB, filter),
+    topArtists(c.env.DB, filter, 10),
+    listSongShares(c.env.DB, { team, user, publicOnly: true }, PAGE_SIZE),
+  ]);
+  const names = await lookupNames(
+    await getBotToken(c.env, team),
+    [user],
+    recent.map((song) => song.channel),
+  );
+  const name = names.get(user) ?? user;
+
+  return c.html(
+    <Layout title={name} session={c.get("session")}>
+      <div class="cards">
+        <div class="card">
+          <strong>{totals.shares}</strong>shares
+        </div>
+        <div class="card">
+          <strong>{totals.songs}</strong>unique songs
+        </div>
+      </div>
+      {artists.length > 0 && (
+        <>
+          <h2>Favourite artists</h2>
+          <BarList
+            rows={artists.map((artist) => ({
+              label: artist.artist,
+              value: artist.shares,
+            }))}
+          />
+        </>
+      )}
+      <h2>Recent shares</h2>
+      {recent.length === 0 && <p>Nothing shared yet.</p>}
+      {recent.map((song) => (
+        <ShareItem song={song} names={names} />
+      ))}
+      {recent.length === PAGE_SIZE && (
+        <p>
+          <a href={`/dashboard${queryString({ user })}`}>All shares →</a>
+        </p>
+      )}
+    </Layout>,
+  );
+});
@@ -0,0 +1,32 @@
+// How long delivered event ids are remembered. Slack gives up retrying a
+// delivery well within this window.
+const EVENT_TTL = 60 * 60;
+
+// Record a Slack event id, returning false if it has already been seen and
+// the event should not be processed again
+export async function claimSlackEvent(
+  db: D1Database,
+  eventId: string,
+): Promise<boolean> {
+  try {
+    const result = await db
+      .prepare(
+        `INSERT OR IGNORE INTO slack_events (event_id, expires_at)
+         VALUES (?, datetime('now', ?))`,
+      )
+      .bind(eventId, `+${EVENT_TTL} seconds`)
+      .run();
+
+    return result.meta.changes > 0;
+  } catch (error) {
+    // Better to risk a duplicate reply than to drop the event
+    console.error("Error recording Slack event:", error);
+    return true;
+  }
+}
+
+export async function purgeExpiredSlackEvents(db: D1Database): Promise<void> {
+  await db
+    .prepare(`DELETE FROM slack_events WHERE expires_at <= datetime('now')`)
+    .run();
+}
@@ -0,0 +1,144 @@
+import type { Env, SlackBlock } from "./types";
+import { escapeMrkdwn, plural, section, sharerRows, songLine } from "./blocks";
+import { getChannelBotToken } from "./installations";
+import { callSlack } from "./slack";
+import {
+  recentShares,
+  shareTotals,
+  topArtists,
+  topSharers,
+  type StatsFilter,
+} from "./stats";
+
+// Slack rejects messages with more than 50 blocks
+const MAX_DIGEST_BLOCKS = 50;
+// Enough to list every song in a busy week
+const MAX_DIGEST_SONGS = 300;
+
+// Split lines into section blocks that each stay under Slack's text limit
+function sectionsForLines(lines: string[]): SlackBlock[] {
+  const sections: SlackBlock[] = [];
+  let current = "";
+
+  for (const line of lines) {
+    if (current && current.length + line.length + 1 > 3000) {
+      sections.push(section(current));
+      current = "";
+    }
+    current = current ? `${current}\n${line}` : line;
+  }
+
+  if (current) {
+    sections.push(section(current));
+  }
+  return sections;
+}
+
+// The past week in a channel: counts, top sharers and artists, and every song
+export async function buildWeeklyDigest(
+  db: D1Database,
+  channel: string,
+): Promise<{ text: string; blocks: SlackBlock[] } | null> {
+  const filter: StatsFilter = { channel, since: "-7 days" };
+  const [totals, sharers, artists, shares] = await Promise.all([
+    shareTotals(db, filter),
+    topSharers(db, filter, 5),
+    topArtists(db, filter, 5),
+    recentShares(db, filter, MAX_DIGEST_SONGS),
+  ]);
+
+  if (totals.shares === 0) {
+    return null;
+  }
+
+  const text = `🗓️ This week in music: ${plural(totals.shares, "song")} shared by ${plural(totals.sharers, "sharer")}`;
+
+  const blocks: SlackBlock[] = [
+    {
+      type: "header",
+      text: { type: "plain_text", text: "🗓️ This week in music" },
+    },
+    {
+      type: "section",
+      fields: [
+        { type: "mrkdwn", text: `*Songs shared*\n${totals.shares}` },
+        { type: "mrkdwn", text: `*Sharers*\n${totals.sharers}` },
+      ],
+    },
+    section(`*Top sharers*\n${sharerRows(sharers)}`),
+  ];
+
+  if (artists.length > 0) {
+    blocks.push(
+      section(
+        `*Most shared artists*\n${artists
+          .map(
+            (artist, i) =>
+              `${i + 1}. ${escapeMrkdwn(artist.artist)} – ${plural(artist.shares, "share")}`,
+          )
+          .join("\n")}`,
+      ),
+    );
+  }
+
+  blocks.push({ type: "divider" });
+
+  const songLines = shares
+    .reverse()
+    .map((share) => `• ${songLine(share)} – <@${share.shared_by}>`);
+  const songSections = sectionsForLines(["*All songs*", ...songLines]);
+
+  blocks.push(...songSections.slice(0, MAX_DIGEST_BLOCKS - blocks.length));
+
+  return { text, blocks };
+}
+
+// Post the digest to every opted-in channel whose digest time is now. Run
+// hourly; digest_last_sent_at guards against posting twice in a week.
+export async function sendWeeklyDigests(
+  env: Env,
+  now = new Date(),
+): Promise<void> {
+  const { results: channels } = await env.DB.prepare(
+    `SELECT channel FROM channel_settings
+     WHERE digest_enabled = 1 AND digest_day = ? AND digest_hour = ?
+       AND (digest_last_sent_at IS NULL
+            OR digest_last_sent_at < datetime('now', '-6 days'))`,
+  )
+    .bind(now.getUTCDay(), now.getUTCHours())
+    .all<{ channel: string }>();
+
+  for (const { channel } of channels) {
+    try {
+      const botToken = await getChannelBotToken(env, channel);
+      if (!botToken) {
+        continue;
+      }
+
+      const digest = await buildWeeklyDigest(env.DB, channel);
+
+      if (digest) {
+        const slackData = await callSlack("chat.postMessage", botToken, {
+          channel,
+          ...digest,
+          unfurl_links: false,
+          unfurl_media: false,
+        });
+
+        if (!slackData.ok) {
+          console.error("Slack API error posting digest:", slackData.error);
+          continue;
+        }
+      }
+
+      await env.DB.prepare(
+        `UPDATE channel_settings SET digest_last_sent_at = datetime('now')
+         WHERE channel = ?`,
+      )
+        .bind(channel)
+        .run();
+    } catch (error) {
+      console.error("Error sending weekly digest:", error);
+    }
+  }
+}
@@ -0,0 +1,247 @@
+import { Hono } from "hono";
+import type { Env, SharedSongRecord } from "./types";
+import { getChannelBotToken } from "./installations";
+import { getChannelSettings } from "./settings";
+import { listSongShares } from "./shares";
+import { channelName } from "./slack";
+
+const DEFAULT_FEED_SIZE = 100;
+const MAX_FEED_SIZE = 500;
+
+type FeedFormat = "rss" | "atom" | "json" | "m3u" | "xspf";
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+  json: "application/feed+json; charset=utf-8",
+  m3u: "audio/x-mpegurl; charset=utf-8",
+  xspf: "application/xspf+xml; charset=utf-8",
+};
+
+// What every format is built from
+interface Feed {
+  title: string;
+  // The feed's own URL and the Slack channel it's for
+  url: string;
+  homePageUrl: string;
+  songs: SharedSongRecord[];
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function sharedDate(song: SharedSongRecord): Date {
+  return new Date(`${song.shared_at.replace(" ", "T")}Z`);
+}
+
+function songTitle(song: SharedSongRecord): string {
+  return song.title ?? song.original_url;
+}
+
+// The page a feed reader should open for a song
+function songPage(song: SharedSongRecord): string {
+  return song.songlink_url ?? song.original_url;
+}
+
+// What a media player should play: YouTube if we have it, otherwise the link
+// as it was shared
+function songMedia(song: SharedSongRecord): string {
+  return song.youtube_url ?? song.original_url;
+}
+
+function songHtml(song: SharedSongRecord): string {
+  const links = [
+    song.songlink_url &&
+      `<a href="${escapeXml(song.songlink_url)}">Listen anywhere</a>`,
+    song.youtube_url && `<a href="${escapeXml(song.youtube_url)}">YouTube</a>`,
+    `<a href="${escapeXml(song.original_url)}">Original link</a>`,
+  ].filter(Boolean);
+
+  return `<p>${escapeXml(songTitle(song))}</p><p>${links.join(" · ")}</p>`;
+}
+
+function buildRss(feed: Feed): string {
+  const items = feed.songs.map(
+    (song) => `    <item>
+      <title>${escapeXml(songTitle(song))}</title>
+      <link>${escapeXml(songPage(song))}</link>
+      <guid isPermaLink="false">share-${song.id}</guid>
+      <pubDate>${sharedDate(song).toUTCString()}</pubDate>
+      <description>${escapeXml(songHtml(song))}</description>
+    </item>`,
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(feed.homePageUrl)}</link>
+    <description>${escapeXml(feed.title)}</description>
+    <atom:link href="${escapeXml(feed.url)}" rel="self" type="application/rss+xml"/>
+${items.join("\n")}
+  </channel>
+</rss>
+`;
+}
+
+function buildAtom(feed: Feed): string {
+  const updated = feed.songs[0] ? sharedDate(feed.songs[0]) : new Date();
+  const entries = feed.songs.map(
+    (song) => `  <entry>
+    <title>${escapeXml(songTitle(song))}</title>
+    <link href="${escapeXml(songPage(song))}"/>
+    <id>${escapeXml(`${feed.url.split("?")[0]}#share-${song.id}`)}</id>
+    <updated>${sharedDate(song).toISOString()}</updated>
+    <content type="html">${escapeXml(songHtml(song))}</content>
+  </entry>`,
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(feed.title)}</title>
+  <id>${escapeXml(feed.url.split("?")[0])}</id>
+  <link rel="self" href="${escapeXml(feed.url)}"/>
+  <link href="${escapeXml(feed.homePageUrl)}"/>
+  <updated>${updated.toISOString()}</updated>
+  <author><name>songlink-bot</name></author>
+${entries.join("\n")}
+</feed>
+`;
+}
+
+// JSON Feed 1.1: https://www.jsonfeed.org/version/1.1/
+function buildJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: "https://jsonfeed.org/version/1.1",
+    title: feed.title,
+    home_page_url: feed.homePageUrl,
+    feed_url: feed.url,
+    items: feed.songs.map((song) => ({
+      id: `share-${song.id}`,
+      url: songPage(song),
+      external_url: song.original_url,
+      title: songTitle(song),
+      content_html: songHtml(song),
+      image: song.thumbnail_url ?? undefined,
+      date_published: sharedDate(song).toISOString(),
+    })),
+  });
+}
+
+function buildM3u(feed: Feed): string {
+  const entries = feed.songs.map(
+    (song) =>
+      `#EXTINF:-1,${songTitle(song).replace(/[\r\n]+/g, " ")}\n${songMedia(song)}`,
+  );
+  return `#EXTM3U\n#PLAYLIST:${feed.title}\n${entries.join("\n")}\n`;
+}
+
+// XSPF: https://xspf.org/spec
+function buildXspf(feed: Feed): string {
+  const tracks = feed.songs.map((song) => {
+    const fields = [
+      `<location>${escapeXml(songMedia(song))}</location>`,
+      `<title>${escapeXml(song.track_title ?? songTitle(song))}</title>`,
+      song.artist && `<creator>${escapeXml(song.artist)}</creator>`,
+      song.album && `<album>${escapeXml(song.album)}</album>`,
+      song.thumbnail_url && `<image>${escapeXml(song.thumbnail_url)}</image>`,
+      `<info>${escapeXml(songPage(song))}</info>`,
+    ].filter(Boolean);
+    return `    <track>\n      ${fields.join("\n      ")}\n    </track>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<playlist version="1" xmlns="http://xspf.org/ns/0/">
+  <title>${escapeXml(feed.title)}</title>
+  <info>${escapeXml(feed.homePageUrl)}</info>
+  <location>${escapeXml(feed.url)}</location>
+  <trackList>
+${tracks.join("\n")}
+  </trackList>
+</playlist>
+`;
+}
+
+const BUILDERS: Record<FeedFormat, (feed: Feed) => string> = {
+  rss: buildRss,
+  atom: buildAtom,
+  json: buildJsonFeed,
+  m3u: buildM3u,
+  xspf: buildXspf,
+};
+
+// Feed URLs for a channel, with its token if it has one
+export function channelFeedUrls(
+  origin: string,
+  channel: string,
+  token: string | null,
+): Record<FeedFormat, string> {
+  const query = token ? `?token=${token}` : "";
+  return Object.fromEntries(
+    (Object.keys(BUILDERS) as FeedFormat[]).map((format) => [
+      format,
+      `${origin}/feeds/${channel}.${format}${query}`,
+    ]),
+  ) as Record<FeedFormat, string>;
+}
+
+// Songs shared in a channel as RSS, Atom, JSON Feed, M3U or XSPF, e.g.
+// /feeds/C0123456789.rss?token=...&from=2025-01-01&to=2025-02-01&limit=50
+export const feeds = new Hono<{ Bindings: Env }>();
+
+feeds.get("/:feed{[A-Z0-9]+\\.(?:rss|atom|json|m3u|xspf)}", async (c) => {
+  const [channel, format] = c.req.param("feed").split(".") as [
+    string,
+    FeedFormat,
+  ];
+  const settings = await getChannelSettings(c.env.DB, channel);
+
+  // Private channels' feeds look the same as ones that don't exist
+  if (
+    !settings.feed_enabled ||
+    (settings.feed_token && c.req.query("token") !== settings.feed_token)
+  ) {
+    return c.text("Not found", 404);
+  }
+
+  const from = c.req.query("from");
+  const to = c.req.query("to");
+  const limit = parseInt(c.req.query("limit") ?? "", 10) || DEFAULT_FEED_SIZE;
+
+  if (
+    (from && Number.isNaN(Date.parse(from))) ||
+    (to && Number.isNaN(Date.parse(to)))
+  ) {
+    return c.text("from and to must be ISO 8601 dates", 400);
+  }
+
+  const [title, songs] = await Promise.all([
+    getChannelBotToken(c.env, channel).then((botToken) =>
+      channelName(botToken, channel),
+    ),
+    listSongShares(
+      c.env.DB,
+      {
+        channel,
+        from: from && new Date(from).toISOString(),
+        to: to && new Date(to).toISOString(),
+      },
+      Math.min(Math.max(limit, 1), MAX_FEED_SIZE),
+    ),
+  ]);
+
+  const body = BUILDERS[format]({
+    title: `Songs shared in ${title}`,
+    url: c.req.url,
+    homePageUrl: `https://slack.com/app_redirect?channel=${channel}`,
+    songs,
+  });
+
+  return c.body(body, 200, { "Content-Type": CONTENT_TYPES[format] });
+});
@@ -1,117 +1,82 @@
 import { Hono } from "hono";
 import type {
+  ChannelSettings,
   Env,
+  OAuthProvider,
+  OAuthTokenResponse,
+  Resolver,
+  ResolverResult,
+  SlackAppEvent,
   SlackEvent,
+  SlackCommand,
+  SlackLinkSharedEvent,
   SlackMessageEvent,
-  SongLinkResponse,
-  SlackApiResponse,
-  YouTubeSearchResponse,
-  SharedSong,
+  SlackInteraction,
+  StoredShare,
+  PreviousShares,
 } from "./types";
+import { api } from "./api";
+import { buildTrackReply } from "./blocks";
+import { recordChannelType } from "./channels";
+import { handleSongsCommand } from "./commands";
+import {
+  CONFIG_VIEW_ID,
+  handleConfigSubmission,
+  handleSonglinkCommand,
+} from "./config";
+import { hmacSha256Hex } from "./crypto";
+import { dashboard } from "./dashboard";
+import { claimSlackEvent, purgeExpiredSlackEvents } from "./dedupe";
+import { sendWeeklyDigests } from "./digest";
+import { feeds } from "./feeds";
+import {
+  claimUnassignedShares,
+  exchangeSlackInstallCode,
+  getBotToken,
+  handleAppEvent,
+  saveInstallation,
+  slackInstallUrl,
+} from "./installations";
+import { extractMusicUrls, isMusicUrl } from "./links";
+import {
+  FIND_SONG_SHORTCUT_ID,
+  POST_SONG_ACTION_ID,
+  handleFindSongShortcut,
+  handlePostSongAction,
+} from "./lookup";
+import { createOAuthState, storeOAuthTokens, verifyOAuthState } from "./oauth";
+import { postShareReply } from "./replies";
+import { isRetryableStatus, processPendingRetries, scheduleRetry } from "./retries";
+import { handleReactionEvent } from "./reactions";
+import { isBestGuess, resolveMusicLink, resolverChain, summarizeTrack, trackSongId } from "./resolvers";
+import { getChannelSettings } from "./settings";
+import {
+  findMessageShares,
+  findPreviousShares,
+  markSongSharesDeleted,
+  storeSongShare,
+} from "./shares";
+import { callSlack, callSlackGet } from "./slack";
+import { normalizeMusicUrl, platformFromUrl } from "./songlink";
+import {
+  exchangeSpotifyCode,
+  spotifyAuthUrl,
+  syncSpotifyPlaylists,
+} from "./spotify";
+import {
+  exchangeYouTubeCode,
+  syncYouTubePlaylists,
+  youtubeAuthUrl,
+} from "./youtube";
 
 const app = new Hono<{ Bindings: Env }>();
 
-const MUSIC_URL_REGEX =
-  /(https?:\/\/)?(open\.spotify\.com|music\.apple\.com|itunes\.apple\.com|youtube\.com|youtu\.be|music\.youtube\.com|play\.google\.com|pandora\.com|deezer\.com|tidal\.com|amazon\.com\/music|music\.amazon\.com|soundcloud\.com|(?:web\.)?napster\.com|music\.yandex\.(?:com|ru)|spinrilla\.com|audius\.co|anghami\.com|boomplay\.com|audiomack\.com|[\w-]+\.bandcamp\.com|bandcamp\.com)\/[^\s]+/gi;
+// Must match the hourly cron in wrangler.toml
+const HOURLY_CRON = "0 * * * *";
 
-// Extract a search query from a music URL by fetching the page title
-async function extractSearchQuery(url: string): Promise<string | null> {
-  try {
-    const response = await fetch(url, {
-      headers: {
-        "User-Agent":
-          "Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)",
-      },
-    });
-
-    if (!response.ok) {
-      return null;
-    }
-
-    const html = await response.text();
-
-    // Try to extract title from HTML
-    const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i);
-    if (titleMatch) {
-      let title = titleMatch[1]
-        // Remove "- Platform" or "| Platform" suffixes
-        .replace(/\s*[-|–—]\s*(Spotify|Apple Music|SoundCloud|Bandcamp|Deezer|Tidal|YouTube|YouTube Music|Amazon Music|Pandora|Listen|Play|Stream).*$/i, "")
-        // Remove "on Platform" suffixes (e.g., "Song by Artist on TIDAL")
-        .replace(/\s+on\s+(Spotify|Apple Music|SoundCloud|Bandcamp|Deezer|Tidal|YouTube|YouTube Music|Amazon Music|Pandora|Listen|Play|Stream).*$/i, "")
-        .replace(/&amp;/g, "&")
-        .replace(/&quot;/g, '"')
-        .replace(/&#39;/g, "'")
-        .replace(/&lt;/g, "<")
-        .replace(/&gt;/g, ">")
-        .trim();
-
-      if (title.length > 3) {
-        return title;
-      }
-    }
-
-    return null;
-  } catch (error) {
-    console.error("Error extracting search query:", error);
-    return null;
-  }
-}
-
-// Search YouTube using Data API v3
-async function searchYouTube(
-  query: string,
-  apiKey: string,
-): Promise<string | null> {
-  try {
-    const searchUrl = `https://www.googleapis.com/youtube/v3/search?part=snippet&q=${encodeURIComponent(query)}&type=video&videoCategoryId=10&maxResults=1&key=${apiKey}`;
-
-    const response = await fetch(searchUrl);
-
-    if (!response.ok) {
-      console.error("YouTube API error:", response.status);
-      return null;
-    }
-
-    const data: YouTubeSearchResponse = await response.json();
-
-    if (data.items && data.items.length > 0) {
-      const videoId = data.items[0].id.videoId;
-      return `https://www.youtube.com/watch?v=${videoId}`;
-    }
-
-    return null;
-  } catch (error) {
-    console.error("Error searching YouTube:", error);
-    return null;
-  }
-}
-
-// Store a shared song in D1
-async function storeSongShare(
-  db: D1Database,
-  song: SharedSong,
-): Promise<void> {
-  try {
-    await db
-      .prepare(
-        `INSERT OR IGNORE INTO shared_songs
-         (original_url, songlink_url, youtube_url, title, shared_by, channel, message_ts)
-         VALUES (?, ?, ?, ?, ?, ?, ?)`,
-      )
-      .bind(
-        song.original_url,
-        song.songlink_url ?? null,
-        song.youtube_url ?? null,
-        song.title ?? null,
-        song.shared_by,
-        song.channel,
-        song.message_ts,
-      )
-      .run();
-  } catch (error) {
-    console.error("Error storing song share:", error);
-  }
-}
+// Domains registered under App unfurl domains in the Slack app, matching
+// subdomains too. Slack allows five.
+const UNFURL_DOMAINS = ["spotify.com", "apple.com", "youtube.com", "youtu.be", "soundcloud.com"];
 
 // Verify Slack request signature
 async function verifySlackRequest(
@@ -132,26 +97,9 @@ async function verifySlackRequest(
     return false;
   }
 
-  const encoder = new TextEncoder();
   const sigBasestring = `v0:${timestamp}:${body}`;
-  const key = await crypto.subtle.importKey(
-    "raw",
-    encoder.encode(signingSecret),
-    { name: "HMAC", hash: "SHA-256" },
-    false,
-    ["sign"],
-  );
-
-  const signature = await crypto.subtle.sign(
-    "HMAC",
-    key,
-    encoder.encode(sigBasestring),
-  );
   const hexSignature =
-    "v0=" +
-    Array.from(new Uint8Array(signature))
-      .map((b) => b.toString(16).padStart(2, "0"))
-      .join("");
+    "v0=" + (await hmacSha256Hex(signingSecret, sigBasestring));
 
   return hexSignature === slackSignature;
 }
@@ -176,202 +124,756 @@ app.post("/slack/events", async (c) => {
     return c.json({ challenge: event.challenge });
   }
 
-  // Handle message events
+  // Slack redelivers events it thinks we missed; only handle each one once
+  if (event.type === "event_callback" && event.event_id) {
+    const isFirstDelivery = await claimSlackEvent(c.env.DB, event.event_id);
+
+    if (!isFirstDelivery) {
+      console.log("Ignoring duplicate event:", event.event_id, {
+        retryNum: c.req.header("X-Slack-Retry-Num"),
+        retryReason: c.req.header("X-Slack-Retry-Reason"),
+      });
+      return c.text("OK");
+    }
+  }
+
+  // Handle message events, processing async to respond to Slack quickly
+  if (event.type === "event_callback" && event.event?.type === "message") {
+    const message = event.event;
+
+    // Reply with the bot token of the workspace the message was posted in
+    const botToken = await getBotToken(c.env, event.team_id);
+    if (!botToken) {
+      console.error("No bot token for workspace:", event.team_id);
+      return c.text("OK");
+    }
+
+    if (event.team_id) {
+      c.executionCtx.waitUntil(claimUnassignedShares(c.env, event.team_id));
+    }
+
+    if (message.subtype === "message_changed") {
+      c.executionCtx.waitUntil(
+        handleMessageChanged(message, event.team_id, botToken, c.env.DB, resolverChain(c.env), c.env.OEMBED_API_URL),
+      );
+    } else if (message.subtype === "message_deleted") {
+      c.executionCtx.waitUntil(
+        handleMessageDeleted(message, botToken, c.env.DB),
+      );
+    } else if (!message.bot_id) {
+      c.executionCtx.waitUntil(
+        handleMusicLinks(message, event.team_id, botToken, c.env.DB, resolverChain(c.env), c.env.OEMBED_API_URL),
+      );
+    }
+  }
+
+  // link_shared: in channels set to unfurl, attach the song card to the
+  // message instead of replying
+  if (event.type === "event_callback" && event.event?.type === "link_shared") {
+    const linkShared = event.event as SlackLinkSharedEvent;
+    const botToken = await getBotToken(c.env, event.team_id);
+
+    if (botToken) {
+      c.executionCtx.waitUntil(
+        handleLinkShared(linkShared, event.team_id, botToken, c.env.DB, resolverChain(c.env), c.env.OEMBED_API_URL),
+      );
+    }
+  }
+
+  // app_uninstalled/tokens_revoked: the workspace's bot token no longer works
   if (
     event.type === "event_callback" &&
-    event.event?.type === "message" &&
-    !event.event.bot_id
+    event.team_id &&
+    (event.event?.type === "app_uninstalled" || event.event?.type === "tokens_revoked")
   ) {
-    // Process async to respond to Slack quickly
     c.executionCtx.waitUntil(
-      handleMusicLinks(event.event, c.env.SLACK_BOT_TOKEN, c.env.DB, c.env.YOUTUBE_API_KEY),
+      handleAppEvent(event.event as SlackAppEvent, event.team_id, c.env.DB),
     );
   }
 
+  // reaction_added/reaction_removed: reactions to shares and replies count
+  // as ratings for the song
+  if (event.type === "event_callback" && event.event && "reaction" in event.event) {
+    c.executionCtx.waitUntil(handleReactionEvent(event.event, c.env.DB));
+  }
+
   return c.text("OK");
 });
 
+app.post("/slack/commands", async (c) => {
+  const body = await c.req.text();
+
+  // Verify request is from Slack
+  const isValid = await verifySlackRequest(
+    c.req.raw,
+    body,
+    c.env.SLACK_SIGNING_SECRET,
+  );
+
+  if (!isValid) {
+    return c.text("Invalid signature", 401);
+  }
+
+  const command = Object.fromEntries(
+    new URLSearchParams(body),
+  ) as unknown as SlackCommand;
+
+  try {
+    if (command.command === "/songs") {
+      return c.json(
+        await handleSongsCommand(command, c.env, new URL(c.req.url).origin),
+      );
+    }
+
+    if (command.command === "/songlink") {
+      const response = await handleSonglinkCommand(
+        command,
+        c.env,
+        c.executionCtx,
+      );
+      return response ? c.json(response) : c.body(null);
+    }
+
+    return c.json({
+      response_type: "ephemeral",
+      text: `Unknown command ${command.command}`,
+    });
+  } catch (error) {
+    console.error("Error handling slash command:", error);
+    return c.json({
+      response_type: "ephemeral",
+      text: "⚠️ Sorry, something went wrong looking that up.",
+    });
+  }
+});
+
+// Interactive components: submissions of the `/songlink config` modal, the
+// "Find song links" message shortcut and its post button
+app.post("/slack/interactions", async (c) => {
+  const body = await c.req.text();
+
+  // Verify request is from Slack
+  const isValid = await verifySlackRequest(
+    c.req.raw,
+    body,
+    c.env.SLACK_SIGNING_SECRET,
+  );
+
+  if (!isValid) {
+    return c.text("Invalid signature", 401);
+  }
+
+  const payload: SlackInteraction = JSON.parse(
+    new URLSearchParams(body).get("payload") ?? "{}",
+  );
+
+  if (payload.type === "view_submission" && payload.view.callback_id === CONFIG_VIEW_ID) {
+    await handleConfigSubmission(payload, c.env.DB);
+  }
+
+  // Searching takes longer than the 3 seconds Slack waits for an
+  // acknowledgement, so results go back through response_url
+  if (payload.type === "message_action" && payload.callback_id === FIND_SONG_SHORTCUT_ID) {
+    c.executionCtx.waitUntil(handleFindSongShortcut(payload, c.env));
+  }
+
+  if (
+    payload.type === "block_actions" &&
+    payload.actions.some((action) => action.action_id === POST_SONG_ACTION_ID)
+  ) {
+    c.executionCtx.waitUntil(handlePostSongAction(payload, c.env));
+  }
+
+  // An empty response closes the modal
+  return c.body(null);
+});
+
+// Add the app to a workspace. Each workspace that installs it gets its own
+// bot token, stored by the callback.
+app.get("/slack/install", async (c) => {
+  if (!c.env.SLACK_CLIENT_ID || !c.env.SLACK_CLIENT_SECRET) {
+    return c.text("Installing through Slack OAuth isn't configured for this app.", 500);
+  }
+
+  const state = await createOAuthState(c.env.SLACK_SIGNING_SECRET, {
+    provider: "slack",
+  });
+  const redirectUri = `${new URL(c.req.url).origin}/slack/oauth/callback`;
+  return c.redirect(slackInstallUrl(c.env.SLACK_CLIENT_ID, redirectUri, state));
+});
+
+app.get("/slack/oauth/callback", async (c) => {
+  const claims = await verifyOAuthState(
+    c.env.SLACK_SIGNING_SECRET,
+    c.req.query("state"),
+  );
+  const code = c.req.query("code");
+
+  if (!claims || claims.provider !== "slack") {
+    return c.text("This link has expired. Start again from /slack/install.", 400);
+  }
+
+  if (!code) {
+    return c.text(`Slack installation failed: ${c.req.query("error") ?? "no code"}`, 400);
+  }
+
+  try {
+    const redirectUri = `${new URL(c.req.url).origin}/slack/oauth/callback`;
+    const install = await exchangeSlackInstallCode(c.env, code, redirectUri);
+
+    await saveInstallation(c.env.DB, install);
+    if (install.team) {
+      await claimUnassignedShares(c.env, install.team.id);
+    }
+    return c.text(`Installed in ${install.team?.name ?? "your workspace"}! Invite the bot to a channel to start linking songs.`);
+  } catch (error) {
+    console.error("Error installing Slack app:", error);
+    return c.text("Something went wrong installing the app.", 500);
+  }
+});
+
+app.route("/api", api);
+app.route("/feeds", feeds);
+app.route("/dashboard", dashboard);
+
+// Services that shared songs can be synced to playlists on, each connected
+// to one account through OAuth
+const PLAYLIST_PROVIDERS: Record<
+  OAuthProvider,
+  {
+    name: string;
+    clientId: (env: Env) => string | undefined;
+    authUrl: (clientId: string, redirectUri: string, state: string) => string;
+    exchangeCode: (
+      env: Env,
+      code: string,
+      redirectUri: string,
+    ) => Promise<OAuthTokenResponse>;
+  }
+> = {
+  youtube: {
+    name: "YouTube",
+    clientId: (env) => env.YOUTUBE_CLIENT_ID,
+    authUrl: youtubeAuthUrl,
+    exchangeCode: exchangeYouTubeCode,
+  },
+  spotify: {
+    name: "Spotify",
+    clientId: (env) => env.SPOTIFY_CLIENT_ID,
+    authUrl: spotifyAuthUrl,
+    exchangeCode: exchangeSpotifyCode,
+  },
+};
+
+// Connect the account playlists are created in. Links to this come from
+// `/songs playlist [spotify] connect`, with a signed state naming who asked.
+app.get("/:provider{youtube|spotify}/connect", async (c) => {
+  const provider = c.req.param("provider") as OAuthProvider;
+  const { name, clientId, authUrl } = PLAYLIST_PROVIDERS[provider];
+  const state = c.req.query("state");
+  const claims = await verifyOAuthState(c.env.SLACK_SIGNING_SECRET, state);
+
+  // Links from before playlists were kept per workspace have no team
+  if (!claims || !state || claims.provider !== provider || !claims.team) {
+    return c.text("This link has expired. Run /songs playlist connect again.", 400);
+  }
+
+  const id = clientId(c.env);
+  if (!id) {
+    return c.text(`${name} OAuth isn't configured for this app.`, 500);
+  }
+
+  const redirectUri = `${new URL(c.req.url).origin}/${provider}/oauth/callback`;
+  return c.redirect(authUrl(id, redirectUri, state));
+});
+
+app.get("/:provider{youtube|spotify}/oauth/callback", async (c) => {
+  const provider = c.req.param("provider") as OAuthProvider;
+  const { name, exchangeCode } = PLAYLIST_PROVIDERS[provider];
+  const claims = await verifyOAuthState(
+    c.env.SLACK_SIGNING_SECRET,
+    c.req.query("state"),
+  );
+  const code = c.req.query("code");
+
+  if (!claims || claims.provider !== provider || !claims.team) {
+    return c.text("This link has expired. Run /songs playlist connect again.", 400);
+  }
+
+  // The workspace may have uninstalled the app since the link was handed out
+  if (!(await getBotToken(c.env, claims.team))) {
+    return c.text(`Install the app in your workspace before connecting ${name}.`, 403);
+  }
+
+  if (!code) {
+    return c.text(`${name} authorization failed: ${c.req.query("error") ?? "no code"}`, 400);
+  }
+
+  try {
+    const redirectUri = `${new URL(c.req.url).origin}/${provider}/oauth/callback`;
+    const tokens = await exchangeCode(c.env, code, redirectUri);
+
+    if (!tokens.refresh_token) {
+      return c.text(`${name} didn't return a refresh token. Please try again.`, 400);
+    }
+
+    await storeOAuthTokens(c.env.DB, claims.team, provider, tokens, claims.user);
+    return c.text(`${name} connected! Shared songs will be synced to playlists within the hour.`);
+  } catch (error) {
+    console.error(`Error connecting ${name}:`, error);
+    return c.text(`Something went wrong connecting ${name}.`, 500);
+  }
+});
+
 async function handleMusicLinks(
   message: SlackMessageEvent,
+  teamId: string | undefined,
   botToken: string,
   db: D1Database,
-  youtubeApiKey?: string,
+  resolvers: Resolver[],
+  oembedApiUrl: string | undefined,
 ): Promise<void> {
-  if (!message.text) {
+  const urls = extractMusicUrls(message);
+
+  console.log({ urls });
+
+  if (urls.length === 0) {
     return;
   }
 
-  const matches = message.text.match(MUSIC_URL_REGEX);
+  const settings = await getChannelSettings(db, message.channel);
+  if (!settings.enabled) {
+    return;
+  }
 
-  console.log({ matches });
+  // Whether the channel is public decides who its shares are listed to
+  if (message.channel_type) {
+    await recordChannelType(db, message.channel, teamId, message.channel_type);
+  }
 
-  if (!matches) {
+  for (const url of urls) {
+    const replySettings = replySettingsFor(url, settings);
+    if (replySettings) {
+      await processMusicLink(url, message, teamId, replySettings, botToken, db, resolvers, oembedApiUrl);
+    }
+  }
+}
+
+// Resolve links from a link_shared event and unfurl them into song cards on
+// the message. Links that can't be resolved, or that Slack won't let us
+// unfurl, get the usual thread reply instead.
+async function handleLinkShared(
+  event: SlackLinkSharedEvent,
+  teamId: string | undefined,
+  botToken: string,
+  db: D1Database,
+  resolvers: Resolver[],
+  oembedApiUrl: string | undefined,
+): Promise<void> {
+  // Links still being typed have no message to record the share against
+  if (event.source === "composer" || event.channel === "COMPOSER") {
+    return;
+  }
+
+  const settings = await getChannelSettings(db, event.channel);
+  if (!settings.enabled || settings.reply_mode !== "unfurl") {
     return;
   }
 
-  console.log("matched!");
-
-  for (const url of matches) {
-    try {
-      // Remove Slack's URL wrapping (< and >)
-      const cleanUrl = url.replace(/^<|>$/g, "");
-
-      // Call song.link API
-      const apiUrl = `https://api.song.link/v1-alpha.1/links?url=${encodeURIComponent(cleanUrl)}`;
-
-      const response = await fetch(apiUrl);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("song.link API error:", response.status, errorText);
-
-        // Try YouTube fallback if API key is configured
-        if (youtubeApiKey) {
-          console.log("Attempting YouTube fallback...");
-          const searchQuery = await extractSearchQuery(cleanUrl);
-
-          if (searchQuery) {
-            console.log("Search query extracted:", searchQuery);
-            const youtubeUrl = await searchYouTube(searchQuery, youtubeApiKey);
-
-            if (youtubeUrl) {
-              const fallbackMessages = [
-                "Well, that didn't go according to plan. The API ghosted us. Rude. We are now doing things the hard way and hitting YouTube directly. Hold please... okay, got it:",
-                "The easy way is officially broken. Don't worry, we're professionals. We are now taking the scenic route directly through YouTube's servers. We found this:",
-                "Seriously? The upstream API just gave up on us. Fine. We're rolling up eight sleeves and digging this out of YouTube ourselves. It's more work, but this is our only purpose in life:",
-                "The API left us on read. Typical. We don't have time for drama, so we bypassed the middleman and went straight to YouTube. Got it:",
-              ];
-              const randomMessage = fallbackMessages[Math.floor(Math.random() * fallbackMessages.length)];
-
-              await fetch("https://slack.com/api/chat.postMessage", {
-                method: "POST",
-                headers: {
-                  Authorization: `Bearer ${botToken}`,
-                  "Content-Type": "application/json; charset=utf-8",
-                },
-                body: JSON.stringify({
-                  channel: message.channel,
-                  text: `${randomMessage}\n${youtubeUrl}`,
-                  thread_ts: message.ts,
-                  unfurl_links: true,
-                  unfurl_media: true,
-                }),
-              });
-
-              // Store the song share (YouTube fallback)
-              await storeSongShare(db, {
-                original_url: cleanUrl,
-                youtube_url: youtubeUrl,
-                title: searchQuery,
-                shared_by: message.user,
-                channel: message.channel,
-                message_ts: message.ts,
-              });
-
-              continue;
-            }
+  const message = { channel: event.channel, user: event.user, ts: event.message_ts };
+
+  for (const { url } of event.links) {
+    if (!isMusicUrl(url)) {
+      continue;
+    }
+
+    const result = await resolveMusicLink(url, channelResolvers(resolvers, settings), oembedApiUrl);
+
+    // YouTube search hits keep their usual reply, as there's no card to show
+    if (result.ok && result.track.resolver !== "youtube") {
+      try {
+        const track = result.track;
+        const previousShares = await findSongHistory(trackSongId(track), message, settings, botToken, db);
+
+        // The unfurl replaces Slack's own preview, so a YouTube link in it
+        // wouldn't play anyway
+        const { blocks } = buildTrackReply(track, previousShares, {
+          platforms: settings.platforms,
+          youtube_embed: false,
+        });
+        const unfurl = await callSlack("chat.unfurl", botToken, {
+          channel: event.channel,
+          ts: event.message_ts,
+          unfurls: { [url]: { blocks } },
+        });
+
+        if (unfurl.ok) {
+          if (settings.store_shares) {
+            await storeSongShare(db, {
+              original_url: url,
+              ...summarizeTrack(track),
+              source_platform: platformFromUrl(url) ?? undefined,
+              shared_by: event.user,
+              channel: event.channel,
+              message_ts: event.message_ts,
+              team_id: teamId,
+            });
           }
+          continue;
         }
 
-        // Determine error message based on status code
-        const errorMessage =
-          response.status === 429
-            ? "we got rate limited again. sigh"
-            : `⚠️ Sorry, I couldn't process that music link. The song.link API returned an error (${response.status}). This might happen if the link type isn't supported or the service is temporarily unavailable.`;
-
-        // Notify user of the error
-        await fetch("https://slack.com/api/chat.postMessage", {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${botToken}`,
-            "Content-Type": "application/json; charset=utf-8",
-          },
-          body: JSON.stringify({
-            channel: message.channel,
-            text: errorMessage,
-            thread_ts: message.ts,
-          }),
-        });
-        continue;
+        console.error("Slack API error unfurling:", unfurl.error);
+      } catch (error) {
+        console.error("Error unfurling music link:", error);
       }
+    }
 
-      const data: SongLinkResponse = await response.json();
+    await replyToMusicLink(
+      url,
+      result,
+      message,
+      teamId,
+      { ...settings, reply_mode: "thread" },
+      botToken,
+      db,
+    );
+  }
+}
 
-      const songLink = data.pageUrl;
+// An edited message: resolve links that were added and remove the replies
+// for links that were taken out
+async function handleMessageChanged(
+  event: SlackMessageEvent,
+  teamId: string | undefined,
+  botToken: string,
+  db: D1Database,
+  resolvers: Resolver[],
+  oembedApiUrl: string | undefined,
+): Promise<void> {
+  const edited = event.message;
 
-      // Extract YouTube URL if available for video embed
-      const youtubeUrl =
-        data.linksByPlatform?.youtube?.url ||
-        data.linksByPlatform?.youtubeMusic?.url;
+  // Ignore edits to bot messages, including our own chat.update calls, and
+  // changes that don't touch the text (Slack sends these when it unfurls links)
+  if (
+    !edited?.user ||
+    edited.bot_id ||
+    edited.text === event.previous_message?.text
+  ) {
+    return;
+  }
 
-      // Extract song title from entities if available
-      const entity = data.entitiesByUniqueId?.[data.entityUniqueId];
-      const songTitle = entity
-        ? `${entity.artistName} - ${entity.title}`
-        : undefined;
+  const settings = await getChannelSettings(db, event.channel);
+  if (!settings.enabled) {
+    return;
+  }
 
-      // Store the song share
-      await storeSongShare(db, {
-        original_url: cleanUrl,
-        songlink_url: songLink,
-        youtube_url: youtubeUrl,
-        title: songTitle,
-        shared_by: message.user,
-        channel: message.channel,
-        message_ts: message.ts,
-      });
+  // Links are compared normalized, as the same link may be written
+  // differently in the text, blocks and attachments
+  const urls = extractMusicUrls(edited);
+  const urlKeys = new Set(urls.map(normalizeMusicUrl));
+  const shares = await findMessageShares(db, event.channel, edited.ts);
+  const sharedUrls = new Set(shares.map((share) => normalizeMusicUrl(share.original_url)));
+
+  // Without stored shares, the links already in the message were handled
+  // when it was first posted
+  if (!settings.store_shares) {
+    for (const url of extractMusicUrls(event.previous_message ?? {})) {
+      sharedUrls.add(normalizeMusicUrl(url));
+    }
+  }
 
-      // Post to Slack
-      const slackPayload = {
-        channel: message.channel,
-        text: youtubeUrl
-          ? `🎵 <${songLink}>\n${youtubeUrl}`
-          : `🎵 <${songLink}>`,
-        thread_ts: message.ts,
-        unfurl_links: true,
-        unfurl_media: true,
-      };
-
-      const slackResponse = await fetch(
-        "https://slack.com/api/chat.postMessage",
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${botToken}`,
-            "Content-Type": "application/json; charset=utf-8",
-          },
-          body: JSON.stringify(slackPayload),
-        },
+  const removed = shares.filter((share) => !urlKeys.has(normalizeMusicUrl(share.original_url)));
+  await removeShareReplies(removed, event.channel, botToken, db);
+
+  for (const url of urls) {
+    const replySettings = replySettingsFor(url, settings);
+    if (!sharedUrls.has(normalizeMusicUrl(url)) && replySettings) {
+      await processMusicLink(
+        url,
+        { channel: event.channel, user: edited.user, ts: edited.ts },
+        teamId,
+        replySettings,
+        botToken,
+        db,
+        resolvers,
+        oembedApiUrl,
       );
+    }
+  }
+}
 
-      if (!slackResponse.ok) {
-        console.error("Slack API HTTP error:", slackResponse.status);
-        continue;
-      }
+// A deleted message: delete our replies and mark its shares deleted
+async function handleMessageDeleted(
+  event: SlackMessageEvent,
+  botToken: string,
+  db: D1Database,
+): Promise<void> {
+  if (!event.deleted_ts || event.previous_message?.bot_id) {
+    return;
+  }
+
+  const shares = await findMessageShares(db, event.channel, event.deleted_ts);
+  await removeShareReplies(shares, event.channel, botToken, db);
+}
 
-      const slackData = (await slackResponse.json()) as SlackApiResponse;
+async function removeShareReplies(
+  shares: StoredShare[],
+  channel: string,
+  botToken: string,
+  db: D1Database,
+): Promise<void> {
+  for (const share of shares) {
+    if (share.reply_ts) {
+      const slackData = await callSlack("chat.delete", botToken, {
+        channel,
+        ts: share.reply_ts,
+      });
 
-      if (!slackData.ok) {
+      if (!slackData.ok && slackData.error !== "message_not_found") {
         console.error("Slack API error:", slackData.error);
+      }
+    }
+  }
 
-        // Reply to user with the error message
-        await fetch("https://slack.com/api/chat.postMessage", {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${botToken}`,
-            "Content-Type": "application/json; charset=utf-8",
-          },
-          body: JSON.stringify({
-            channel: message.channel,
-            text: `⚠️ Error: ${slackData.error || "Failed to post message"}`,
-            thread_ts: message.ts,
-          }),
+  await markSongSharesDeleted(
+    db,
+    shares.map((share) => share.id),
+  );
+}
+
+// Earlier shares of a song in the channel, with a permalink to the first one,
+// unless the channel has switched duplicate notices off
+async function findSongHistory(
+  songId: string | undefined,
+  message: Pick<SlackMessageEvent, "channel" | "ts">,
+  settings: ChannelSettings,
+  botToken: string,
+  db: D1Database,
+): Promise<PreviousShares | null> {
+  try {
+    if (!settings.show_duplicates || !songId) {
+      return null;
+    }
+
+    const previous = await findPreviousShares(
+      db,
+      message.channel,
+      songId,
+      message.ts,
+    );
+    if (!previous) {
+      return null;
+    }
+
+    const permalink = await callSlackGet("chat.getPermalink", botToken, {
+      channel: message.channel,
+      message_ts: previous.first_message_ts,
+    });
+
+    return { ...previous, first_permalink: permalink.permalink };
+  } catch (error) {
+    console.error("Error looking up previous shares:", error);
+    return null;
+  }
+}
+
+function isUnfurlDomain(url: string): boolean {
+  try {
+    const { hostname } = new URL(/^https?:\/\//i.test(url) ? url : `https://${url}`);
+    return UNFURL_DOMAINS.some((domain) => hostname === domain || hostname.endsWith(`.${domain}`));
+  } catch {
+    return false;
+  }
+}
+
+// How to reply to a link from a message event. In unfurl mode, links on the
+// app's unfurl domains are left to link_shared (null) and the rest fall back
+// to a thread reply.
+function replySettingsFor(url: string, settings: ChannelSettings): ChannelSettings | null {
+  if (settings.reply_mode !== "unfurl") {
+    return settings;
+  }
+  return isUnfurlDomain(url) ? null : { ...settings, reply_mode: "thread" };
+}
+
+// The channel's resolvers: the YouTube search only if the channel allows it
+function channelResolvers(resolvers: Resolver[], settings: ChannelSettings): Resolver[] {
+  return settings.youtube_fallback ? resolvers : resolvers.filter((resolver) => resolver.name !== "youtube");
+}
+
+// Resolve a single music link and reply to it as the channel's settings say
+async function processMusicLink(
+  cleanUrl: string,
+  message: Pick<SlackMessageEvent, "channel" | "user" | "ts">,
+  teamId: string | undefined,
+  settings: ChannelSettings,
+  botToken: string,
+  db: D1Database,
+  resolvers: Resolver[],
+  oembedApiUrl: string | undefined,
+): Promise<void> {
+  try {
+    const result = await resolveMusicLink(cleanUrl, channelResolvers(resolvers, settings), oembedApiUrl);
+    await replyToMusicLink(cleanUrl, result, message, teamId, settings, botToken, db);
+  } catch (error) {
+    console.error("Error processing music link:", error);
+  }
+}
+
+// Reply to a music link with the song it resolved to, or with why it didn't
+async function replyToMusicLink(
+  cleanUrl: string,
+  result: ResolverResult,
+  message: Pick<SlackMessageEvent, "channel" | "user" | "ts">,
+  teamId: string | undefined,
+  settings: ChannelSettings,
+  botToken: string,
+  db: D1Database,
+): Promise<void> {
+  try {
+    if (!result.ok) {
+      // Retries work through the stored share, so channels that don't store
+      // shares aren't promised one
+      const retryable = isRetryableStatus(result.status) && settings.store_shares;
+
+      // Determine error message based on status code
+      const errorMessage =
+        result.status === 429
+          ? "we got rate limited again. sigh. I'll try again in a few minutes."
+          : retryable
+            ? `⚠️ Sorry, I couldn't process that music link. The song.link API returned an error (${result.status}). I'll try again in a few minutes.`
+            : `⚠️ Sorry, I couldn't process that music link. The song.link API returned an error (${result.status}). This might happen if the link type isn't supported or the service is temporarily unavailable.`;
+
+      // Notify user of the error
+      const errorReply = await postShareReply(botToken, settings, message, {
+        text: errorMessage,
+      });
+
+      // Store the share as pending and retry the lookup later
+      if (retryable) {
+        const shareId = await storeSongShare(db, {
+          original_url: cleanUrl,
+          source_platform: platformFromUrl(cleanUrl) ?? undefined,
+          shared_by: message.user,
+          channel: message.channel,
+          message_ts: message.ts,
+          team_id: teamId,
+          reply_ts: errorReply.ts,
+          status: "pending",
+        });
+
+        if (shareId !== null) {
+          await scheduleRetry(db, shareId);
+        }
+      }
+      return;
+    }
+
+    const track = result.track;
+
+    // A YouTube search hit is only a video, so it gets a plain reply
+    const youtubeUrl = track.resolver === "youtube" ? track.links.youtube : undefined;
+    if (youtubeUrl) {
+      const fallbackMessages = [
+        "Well, that didn't go according to plan. The API ghosted us. Rude. We are now doing things the hard way and hitting YouTube directly. Hold please... okay, got it:",
+        "The easy way is officially broken. Don't worry, we're professionals. We are now taking the scenic route directly through YouTube's servers. We found this:",
+        "Seriously? The upstream API just gave up on us. Fine. We're rolling up eight sleeves and digging this out of YouTube ourselves. It's more work, but this is our only purpose in life:",
+        "The API left us on read. Typical. We don't have time for drama, so we bypassed the middleman and went straight to YouTube. Got it:",
+      ];
+      const randomMessage = fallbackMessages[Math.floor(Math.random() * fallbackMessages.length)];
+
+      const guessNote = isBestGuess(track)
+        ? "\n🤔 That's my best guess, so it might not be the exact song."
+        : "";
+
+      const fallbackReply = await postShareReply(botToken, settings, message, {
+        text: `${randomMessage}\n${youtubeUrl}${guessNote}`,
+      });
+
+      // Store the song share (YouTube fallback)
+      if (settings.store_shares) {
+        await storeSongShare(db, {
+          original_url: cleanUrl,
+          ...summarizeTrack(track),
+          source_platform: platformFromUrl(cleanUrl) ?? undefined,
+          shared_by: message.user,
+          channel: message.channel,
+          message_ts: message.ts,
+          team_id: teamId,
+          reply_ts: fallbackReply.ts,
         });
       }
-    } catch (error) {
-      console.error("Error processing music link:", error);
+
+      return;
+    }
+
+    const previousShares = await findSongHistory(
+      trackSongId(track),
+      message,
+      settings,
+      botToken,
+      db,
+    );
+
+    // Post to Slack
+    const slackData = await postShareReply(
+      botToken,
+      settings,
+      message,
+      buildTrackReply(track, previousShares, settings),
+    );
+
+    // Store the song share, with the reply so edits and deletes can find it
+    if (settings.store_shares) {
+      await storeSongShare(db, {
+        original_url: cleanUrl,
+        ...summarizeTrack(track),
+        source_platform: platformFromUrl(cleanUrl) ?? undefined,
+        shared_by: message.user,
+        channel: message.channel,
+        message_ts: message.ts,
+        team_id: teamId,
+        reply_ts: slackData.ts,
+      });
     }
+
+    if (!slackData.ok) {
+      console.error("Slack API error:", slackData.error);
+
+      // Reply to user with the error message
+      await postShareReply(botToken, settings, message, {
+        text: `⚠️ Error: ${slackData.error || "Failed to post message"}`,
+      });
+    }
+  } catch (error) {
+    console.error("Error processing music link:", error);
   }
 }
 
-export default app;
+export default {
+  fetch: app.fetch,
+
+  // Cron triggers: hourly for weekly digests and playlist syncing; every few
+  // minutes to retry song.link lookups that failed earlier and forget old
+  // Slack event ids
+  async scheduled(controller, env, ctx) {
+    if (controller.cron === HOURLY_CRON) {
+      const now = new Date(controller.scheduledTime);
+      ctx.waitUntil(
+        Promise.all([
+          sendWeeklyDigests(env, now),
+          syncYouTubePlaylists(env, now),
+          syncSpotifyPlaylists(env),
+        ]),
+      );
+      return;
+    }
+
+    ctx.waitUntil(
+      Promise.all([
+        processPendingRetries(env),
+        purgeExpiredSlackEvents(env.DB),
+      ]),
+    );
+  },
+} satisfies ExportedHandler<Env>;
@@ -0,0 +1,238 @@
+import type { Env, SlackAppEvent, SlackOAuthV2Response } from "./types";
+import { botTeamId } from "./signin";
+
+const SLACK_AUTHORIZE_URL = "https://slack.com/oauth/v2/authorize";
+const SLACK_TOKEN_URL = "https://slack.com/api/oauth.v2.access";
+
+// Everything the bot needs: reading and replying to messages, unfurling
+// links, reactions, channel and user names, and the slash commands
+const SLACK_BOT_SCOPES = [
+  "channels:history",
+  "groups:history",
+  "im:history",
+  "mpim:history",
+  "chat:write",
+  "links:read",
+  "links:write",
+  "reactions:read",
+  "channels:read",
+  "users:read",
+  "commands",
+];
+
+export function slackInstallUrl(
+  clientId: string,
+  redirectUri: string,
+  state: string,
+): string {
+  const params = new URLSearchParams({
+    client_id: clientId,
+    scope: SLACK_BOT_SCOPES.join(","),
+    redirect_uri: redirectUri,
+    state,
+  });
+  return `${SLACK_AUTHORIZE_URL}?${params}`;
+}
+
+export async function exchangeSlackInstallCode(
+  env: Env,
+  code: string,
+  redirectUri: string,
+): Promise<SlackOAuthV2Response> {
+  const response = await fetch(SLACK_TOKEN_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: env.SLACK_CLIENT_ID ?? "",
+      client_secret: env.SLACK_CLIENT_SECRET ?? "",
+      code,
+      redirect_uri: redirectUri,
+    }),
+  });
+  const data = await response.json<SlackOAuthV2Response>();
+
+  if (!data.ok || !data.access_token || !data.team) {
+    throw new Error(`Slack install error: ${data.error ?? response.status}`);
+  }
+
+  return data;
+}
+
+// Store a workspace's bot token, replacing the one from an earlier install
+export async function saveInstallation(
+  db: D1Database,
+  install: SlackOAuthV2Response,
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO slack_installations
+       (team_id, team_name, bot_token, bot_user_id, installed_by, installed_at)
+       VALUES (?, ?, ?, ?, ?, datetime('now'))
+       ON CONFLICT(team_id) DO UPDATE SET
+         team_name = excluded.team_name,
+         bot_token = excluded.bot_token,
+         bot_user_id = excluded.bot_user_id,
+         installed_by = excluded.installed_by,
+         installed_at = excluded.installed_at`,
+    )
+    .bind(
+      install.team?.id,
+      install.team?.name ?? null,
+      install.access_token,
+      install.bot_user_id ?? null,
+      install.authed_user?.id ?? null,
+    )
+    .run();
+}
+
+// The workspace each SLACK_BOT_TOKEN belongs to, looked up once per isolate
+const envTokenTeams = new Map<string, string>();
+
+async function envTokenTeamId(botToken: string): Promise<string | null> {
+  let team = envTokenTeams.get(botToken) ?? null;
+  if (!team) {
+    team = await botTeamId(botToken);
+    if (team) {
+      envTokenTeams.set(botToken, team);
+    }
+  }
+  return team;
+}
+
+// Whether the app is installed in a workspace, through /slack/install or as
+// SLACK_BOT_TOKEN's workspace
+export async function isInstalled(env: Env, teamId: string): Promise<boolean> {
+  const row = await env.DB.prepare(
+    `SELECT 1 AS installed FROM slack_installations WHERE team_id = ?`,
+  )
+    .bind(teamId)
+    .first<number>("installed");
+
+  return (
+    row !== null ||
+    (!!env.SLACK_BOT_TOKEN &&
+      (await envTokenTeamId(env.SLACK_BOT_TOKEN)) === teamId)
+  );
+}
+
+// The bot token for a workspace. SLACK_BOT_TOKEN is used for single-workspace
+// setups that never went through /slack/install, and for its own workspace;
+// other workspaces without an installation have no token.
+export async function getBotToken(
+  env: Env,
+  teamId: string | null | undefined,
+): Promise<string | undefined> {
+  if (teamId) {
+    const token = await env.DB.prepare(
+      `SELECT bot_token FROM slack_installations WHERE team_id = ?`,
+    )
+      .bind(teamId)
+      .first<string>("bot_token");
+
+    if (token) {
+      return token;
+    }
+  }
+
+  if (!env.SLACK_BOT_TOKEN) {
+    return undefined;
+  }
+
+  const installations = await env.DB.prepare(
+    `SELECT COUNT(*) AS count FROM slack_installations`,
+  ).first<number>("count");
+
+  if (
+    !installations ||
+    (!!teamId && (await envTokenTeamId(env.SLACK_BOT_TOKEN)) === teamId)
+  ) {
+    return env.SLACK_BOT_TOKEN;
+  }
+
+  return undefined;
+}
+
+// Workspaces whose unassigned shares have been claimed in this isolate
+const claimedTeams = new Set<string>();
+
+// Shares stored before migration 0015 have no workspace, and all came from
+// SLACK_BOT_TOKEN's; so do the playlist accounts connected before 0019. Once
+// that workspace sends an event or installs the app, give them its team, and
+// its channels' settings and playlists the team of their shares.
+export async function claimUnassignedShares(
+  env: Env,
+  teamId: string,
+): Promise<void> {
+  if (
+    claimedTeams.has(teamId) ||
+    !env.SLACK_BOT_TOKEN ||
+    (await envTokenTeamId(env.SLACK_BOT_TOKEN)) !== teamId
+  ) {
+    return;
+  }
+
+  await env.DB.batch([
+    env.DB.prepare(
+      `UPDATE shared_songs SET team_id = ? WHERE team_id IS NULL`,
+    ).bind(teamId),
+    env.DB.prepare(
+      `UPDATE oauth_tokens SET team_id = ? WHERE team_id IS NULL`,
+    ).bind(teamId),
+    env.DB.prepare(
+      `UPDATE channel_settings SET team_id = (
+         SELECT team_id FROM shared_songs
+         WHERE shared_songs.channel = channel_settings.channel
+           AND team_id IS NOT NULL
+         ORDER BY id DESC LIMIT 1
+       )
+       WHERE team_id IS NULL`,
+    ),
+    env.DB.prepare(
+      `UPDATE playlists SET team_id = (
+         SELECT team_id FROM channel_settings
+         WHERE channel_settings.channel = playlists.channel
+       )
+       WHERE team_id IS NULL`,
+    ),
+  ]);
+  claimedTeams.add(teamId);
+}
+
+// The bot token for the workspace a channel's songs were shared in, for work
+// that isn't triggered by a Slack request (digests, playlists, feeds)
+export async function getChannelBotToken(
+  env: Env,
+  channel: string,
+): Promise<string | undefined> {
+  const teamId = await env.DB.prepare(
+    `SELECT team_id FROM shared_songs
+     WHERE channel = ? AND team_id IS NOT NULL
+     ORDER BY id DESC LIMIT 1`,
+  )
+    .bind(channel)
+    .first<string>("team_id");
+
+  return getBotToken(env, teamId);
+}
+
+// app_uninstalled and tokens_revoked: forget the workspace's bot token. Its
+// shares are kept, and come back into use if the app is installed again.
+export async function handleAppEvent(
+  event: SlackAppEvent,
+  teamId: string,
+  db: D1Database,
+): Promise<void> {
+  if (event.type === "tokens_revoked" && !event.tokens?.bot?.length) {
+    return;
+  }
+
+  try {
+    await db
+      .prepare(`DELETE FROM slack_installations WHERE team_id = ?`)
+      .bind(teamId)
+      .run();
+    console.log("Removed Slack installation:", teamId, event.type);
+  } catch (error) {
+    console.error("Error removing Slack installation:", error);
+  }
+}
@@ -0,0 +1,51 @@
+import type { ItunesLookupResponse } from "./types";
+
+// Base URL of the iTunes Search API, unless ITUNES_API_URL says otherwise
+export const ITUNES_API_URL = "https://itunes.apple.com";
+
+// Name of the album an iTunes/Apple Music track appears on. song.link only
+// describes the track itself, so this is the one place we get album names.
+export async function lookupItunesAlbum(
+  trackId: string,
+  apiUrl = ITUNES_API_URL,
+): Promise<string | null> {
+  try {
+    const response = await fetch(
+      `${apiUrl}/lookup?id=${encodeURIComponent(trackId)}&entity=song`,
+    );
+
+    if (!response.ok) {
+      console.error("iTunes lookup error:", response.status);
+      return null;
+    }
+
+    const data: ItunesLookupResponse = await response.json();
+    return data.results?.[0]?.collectionName ?? null;
+  } catch (error) {
+    console.error("Error looking up iTunes album:", error);
+    return null;
+  }
+}
+
+// How many tracks an iTunes/Apple Music album has
+export async function lookupItunesTrackCount(
+  albumId: string,
+  apiUrl = ITUNES_API_URL,
+): Promise<number | null> {
+  try {
+    const response = await fetch(
+      `${apiUrl}/lookup?id=${encodeURIComponent(albumId)}`,
+    );
+
+    if (!response.ok) {
+      console.error("iTunes lookup error:", response.status);
+      return null;
+    }
+
+    const data: ItunesLookupResponse = await response.json();
+    return data.results?.[0]?.trackCount ?? null;
+  } catch (error) {
+    console.error("Error looking up iTunes album:", error);
+    return null;
+  }
+}
@@ -0,0 +1,127 @@
+import type { SlackAttachment, SlackMessage, SlackMessageBlock } from "./types";
+import { normalizeMusicUrl, platformFromUrl } from "./songlink";
+
+// Links in mrkdwn text: Slack wraps them as <url> or <url|label>, but text
+// from other apps may have them bare. Either way a link ends at whitespace,
+// a label or the closing >.
+const LINK_REGEX =
+  /<(https?:\/\/[^|>\s]+)(?:\|[^>]*)?>|(https?:\/\/[^\s|<>]+)/gi;
+
+// Links typed without a scheme, like open.spotify.com/track/…
+const SCHEMELESS_LINK_REGEX =
+  /(?:^|[\s(])((?:[\w-]+\.)+[a-z]{2,}\/[^\s|<>]+)/gi;
+
+// Sentence punctuation right after a bare link, as in "(see …/track/x)."
+const TRAILING_PUNCTUATION = ".,!?;:";
+
+const CLOSING_BRACKETS = new Map([
+  [")", "("],
+  ["]", "["],
+  ["}", "{"],
+]);
+
+type MessageContent = Pick<SlackMessage, "text" | "blocks" | "attachments">;
+
+// Whether a link is to a platform song.link knows
+export function isMusicUrl(url: string): boolean {
+  return platformFromUrl(url) !== null;
+}
+
+// Slack escapes &, < and > in text, including inside links
+function unescapeSlack(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+function count(text: string, char: string): number {
+  return text.split(char).length - 1;
+}
+
+// A bare link without the punctuation of the sentence around it. Closing
+// brackets are kept when the link opens them itself, like Wikipedia's
+// …/Song_(band).
+function trimBareLink(link: string): string {
+  let trimmed = link;
+
+  while (trimmed) {
+    const last = trimmed.slice(-1);
+    const opening = CLOSING_BRACKETS.get(last);
+    if (
+      !TRAILING_PUNCTUATION.includes(last) &&
+      !(opening && count(trimmed, last) > count(trimmed, opening))
+    ) {
+      break;
+    }
+    trimmed = trimmed.slice(0, -1);
+  }
+
+  return trimmed;
+}
+
+function linksInText(text: string | undefined): string[] {
+  if (!text) {
+    return [];
+  }
+
+  // Slack's <…> links end where Slack says; bare ones are trimmed once
+  // unescaped, so &amp; isn't taken for punctuation
+  const links = [...text.matchAll(LINK_REGEX)].map(([, wrapped, bare]) =>
+    wrapped ? unescapeSlack(wrapped) : trimBareLink(unescapeSlack(bare)),
+  );
+  const schemeless = [...text.matchAll(SCHEMELESS_LINK_REGEX)].map(([, link]) =>
+    trimBareLink(unescapeSlack(link)),
+  );
+
+  return [...links, ...schemeless];
+}
+
+// rich_text "link" elements and mrkdwn text, at any depth
+function linksInBlocks(blocks: SlackMessageBlock[] | undefined): string[] {
+  return (blocks ?? []).flatMap((block) => [
+    ...(block.type === "link" && block.url ? [block.url] : []),
+    ...(typeof block.text === "object" ? linksInText(block.text.text) : []),
+    ...(block.fields ?? []).flatMap((field) => linksInText(field.text)),
+    ...linksInBlocks(block.elements),
+  ]);
+}
+
+// Link previews, and the content of forwarded and shared messages
+function linksInAttachments(
+  attachments: SlackAttachment[] | undefined,
+): string[] {
+  return (attachments ?? []).flatMap((attachment) => [
+    ...linksInText(attachment.pretext),
+    ...linksInText(attachment.text),
+    ...[
+      attachment.original_url,
+      attachment.from_url,
+      attachment.title_link,
+    ].filter((url): url is string => !!url),
+    ...linksInBlocks(attachment.blocks),
+    ...(attachment.message_blocks ?? []).flatMap(({ message }) =>
+      linksInBlocks(message?.blocks),
+    ),
+  ]);
+}
+
+// The music links in a message: its text, rich_text blocks and attachments,
+// including forwarded messages. A link that appears in several places, or in
+// several forms, is returned once, as first seen.
+export function extractMusicUrls(message: MessageContent): string[] {
+  const seen = new Set<string>();
+
+  return [
+    ...linksInText(message.text),
+    ...linksInBlocks(message.blocks),
+    ...linksInAttachments(message.attachments),
+  ].filter((url) => {
+    const key = normalizeMusicUrl(url);
+    if (!isMusicUrl(url) || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,283 @@
+import type {
+  Env,
+  ResolvedTrack,
+  SlackBlockActions,
+  SlackCommand,
+  SlackMessageAction,
+  SlackResponsePayload,
+  YouTubeMatch,
+} from "./types";
+import { buildTrackReply } from "./blocks";
+import { getBotToken } from "./installations";
+import { summarizeTrack } from "./resolvers";
+import { getChannelSettings } from "./settings";
+import { storeSongShare } from "./shares";
+import { callSlack, respond } from "./slack";
+import {
+  createD1SongLinkCache,
+  entityIdFromUrl,
+  fetchSongLink,
+  platformFromUrl,
+  songLinkAlbum,
+  songLinkTrack,
+} from "./songlink";
+import { searchYouTube } from "./youtube";
+
+// callback_id of the "Find song links" message shortcut
+export const FIND_SONG_SHORTCUT_ID = "find_song_links";
+
+// action_id of the button that posts a found song for everyone
+export const POST_SONG_ACTION_ID = "post_song_link";
+
+// What the post button carries: the search, the YouTube hit, how sure the
+// search was and where to post it. message_ts is the message a shortcut was
+// used on, which the share is recorded against.
+interface PostSongValue {
+  query: string;
+  url: string;
+  confidence: number;
+  channel: string;
+  thread_ts?: string;
+  message_ts?: string;
+}
+
+interface SongLookup {
+  match: YouTubeMatch;
+  track: ResolvedTrack;
+}
+
+// The song a YouTube search hit is, through song.link if it knows the video.
+// Either way, it's only as certain as the search was.
+async function trackForVideo(
+  query: string,
+  youtubeUrl: string,
+  confidence: number,
+  env: Env,
+): Promise<ResolvedTrack> {
+  const result = await fetchSongLink(
+    youtubeUrl,
+    createD1SongLinkCache(env.DB),
+    { apiUrl: env.SONGLINK_API_URL },
+  );
+
+  return result.ok
+    ? {
+        ...songLinkTrack(
+          result.data,
+          await songLinkAlbum(result.data, env.ITUNES_API_URL),
+        ),
+        confidence,
+      }
+    : {
+        resolver: "youtube",
+        confidence,
+        title: query,
+        link_type: "track",
+        entity_unique_id: entityIdFromUrl(youtubeUrl) ?? undefined,
+        links: { youtube: youtubeUrl },
+      };
+}
+
+// Search YouTube for free text and resolve the best hit through song.link
+async function lookupSong(query: string, env: Env): Promise<SongLookup | null> {
+  if (!env.YOUTUBE_API_KEY) {
+    return null;
+  }
+
+  const match = await searchYouTube(
+    { query },
+    env.YOUTUBE_API_KEY,
+    env.YOUTUBE_API_URL,
+  );
+  if (!match) {
+    return null;
+  }
+
+  return {
+    match,
+    track: await trackForVideo(query, match.url, match.confidence, env),
+  };
+}
+
+// Message text as plain words: mentions dropped, links replaced by their
+// labels and Slack's escaping undone
+function plainText(text: string): string {
+  return text
+    .replace(/<[@!][^>]+>/g, "")
+    .replace(/<[^|>]+\|([^>]+)>/g, "$1")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// The ephemeral card for a lookup, with a button to post it for everyone
+function lookupResponse(
+  query: string,
+  lookup: SongLookup | null,
+  target: Omit<PostSongValue, "query" | "url" | "confidence">,
+): SlackResponsePayload {
+  if (!lookup) {
+    return {
+      response_type: "ephemeral",
+      text: `Sorry, I couldn't find a song for "${query}".`,
+    };
+  }
+
+  const reply = buildTrackReply(lookup.track);
+  const value: PostSongValue = {
+    query,
+    url: lookup.match.url,
+    confidence: lookup.match.confidence,
+    ...target,
+  };
+
+  return {
+    response_type: "ephemeral",
+    text: reply.text,
+    blocks: [
+      ...reply.blocks,
+      {
+        type: "actions",
+        elements: [
+          {
+            type: "button",
+            text: {
+              type: "plain_text",
+              text: target.thread_ts ? "Post in thread" : "Post in channel",
+            },
+            action_id: POST_SONG_ACTION_ID,
+            value: JSON.stringify(value),
+            style: "primary",
+          },
+        ],
+      },
+    ],
+  };
+}
+
+// `/songlink <free text>`. Searching can take longer than Slack waits for a
+// command response, so the result goes to response_url.
+export async function lookUpSongForCommand(
+  command: SlackCommand,
+  env: Env,
+): Promise<void> {
+  const query = command.text.trim();
+
+  try {
+    const lookup = await lookupSong(query, env);
+    await respond(
+      command.response_url,
+      lookupResponse(query, lookup, { channel: command.channel_id }),
+    );
+  } catch (error) {
+    console.error("Error looking up song:", error);
+    await respond(command.response_url, {
+      response_type: "ephemeral",
+      text: "⚠️ Sorry, something went wrong looking that up.",
+    });
+  }
+}
+
+// "Find song links" on a message: search for whatever the message says, and
+// offer to post the song in its thread
+export async function handleFindSongShortcut(
+  payload: SlackMessageAction,
+  env: Env,
+): Promise<void> {
+  const query = plainText(payload.message.text ?? "");
+
+  if (!query) {
+    await respond(payload.response_url, {
+      response_type: "ephemeral",
+      text: "That message doesn't have any text to search for.",
+    });
+    return;
+  }
+
+  try {
+    const lookup = await lookupSong(query, env);
+    await respond(
+      payload.response_url,
+      lookupResponse(query, lookup, {
+        channel: payload.channel.id,
+        thread_ts: payload.message.thread_ts ?? payload.message.ts,
+        message_ts: payload.message.ts,
+      }),
+    );
+  } catch (error) {
+    console.error("Error looking up song:", error);
+    await respond(payload.response_url, {
+      response_type: "ephemeral",
+      text: "⚠️ Sorry, something went wrong looking that up.",
+    });
+  }
+}
+
+// The post button: post the song card for everyone and record it as a share
+// by whoever clicked
+export async function handlePostSongAction(
+  payload: SlackBlockActions,
+  env: Env,
+): Promise<void> {
+  const action = payload.actions.find(
+    (action) => action.action_id === POST_SONG_ACTION_ID,
+  );
+  if (!action?.value) {
+    return;
+  }
+
+  const value: PostSongValue = JSON.parse(action.value);
+  const teamId = payload.team?.id;
+  const botToken = await getBotToken(env, teamId);
+  if (!botToken) {
+    return;
+  }
+
+  const settings = await getChannelSettings(env.DB, value.channel);
+  const track = await trackForVideo(
+    value.query,
+    value.url,
+    value.confidence,
+    env,
+  );
+  const reply = buildTrackReply(track, null, settings);
+
+  const posted = await callSlack("chat.postMessage", botToken, {
+    channel: value.channel,
+    ...reply,
+    thread_ts: value.thread_ts,
+    unfurl_links: true,
+    unfurl_media: settings.youtube_embed,
+  });
+
+  if (!posted.ok) {
+    console.error("Slack API error posting song:", posted.error);
+    if (payload.response_url) {
+      await respond(payload.response_url, {
+        response_type: "ephemeral",
+        text: `⚠️ Sorry, I couldn't post that (${posted.error}). Is the bot in this channel?`,
+      });
+    }
+    return;
+  }
+
+  if (settings.store_shares && posted.ts) {
+    await storeSongShare(env.DB, {
+      original_url: value.url,
+      ...summarizeTrack(track),
+      source_platform: platformFromUrl(value.url) ?? undefined,
+      shared_by: payload.user.id,
+      channel: value.channel,
+      message_ts: value.message_ts ?? posted.ts,
+      team_id: teamId,
+      reply_ts: posted.ts,
+    });
+  }
+
+  if (payload.response_url) {
+    await respond(payload.response_url, { delete_original: true });
+  }
+}
@@ -0,0 +1,499 @@
+import type {
+  LinkMetadata,
+  ListedTrack,
+  OEmbedResponse,
+  PageDetails,
+  SongLinkPlatform,
+} from "./types";
+import { platformFromUrl } from "./songlink";
+
+// Platforms with an oEmbed endpoint, which describes a link without fetching
+// its (often script-rendered) page
+const OEMBED_ENDPOINTS: Partial<Record<SongLinkPlatform, string>> = {
+  youtube: "https://www.youtube.com/oembed?format=json&url=",
+  youtubeMusic: "https://www.youtube.com/oembed?format=json&url=",
+  soundcloud: "https://soundcloud.com/oembed?format=json&url=",
+  spotify: "https://open.spotify.com/oembed?url=",
+  tidal: "https://oembed.tidal.com/?url=",
+  audiomack: "https://audiomack.com/oembed?format=json&url=",
+};
+
+// Some pages only render their metadata for crawlers
+const CRAWLER_USER_AGENT =
+  "Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)";
+
+// Platform names pages append to their <title>
+const PLATFORM_SUFFIX =
+  /\s*(?:[-|–—]|\bon)\s+(Spotify|Apple Music|SoundCloud|Bandcamp|Deezer|Tidal|YouTube|YouTube Music|Amazon Music|Pandora|Audiomack|Anghami|Boomplay|Listen|Play|Stream)\b.*$/i;
+
+// Video title decorations that aren't part of the song's name
+const VIDEO_DECORATION =
+  /\s*[([][^)\]]*\b(official|video|audio|lyrics?|visuali[sz]er|hd|hq|4k|remaster(ed)?)\b[^)\]]*[)\]]/gi;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  hellip: "…",
+  middot: "·",
+  bull: "•",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  times: "×",
+  deg: "°",
+  laquo: "«",
+  raquo: "»",
+  iexcl: "¡",
+  iquest: "¿",
+  szlig: "ß",
+  aelig: "æ",
+  AElig: "Æ",
+  oslash: "ø",
+  Oslash: "Ø",
+  aring: "å",
+  Aring: "Å",
+  ccedil: "ç",
+  Ccedil: "Ç",
+  ntilde: "ñ",
+  Ntilde: "Ñ",
+  eth: "ð",
+  thorn: "þ",
+};
+
+// Accented letters, e.g. &eacute; and &Uuml;
+const ACCENTS: Record<string, string> = {
+  acute: "\u0301",
+  grave: "\u0300",
+  circ: "\u0302",
+  uml: "\u0308",
+  tilde: "\u0303",
+};
+
+// Decode named, decimal and hex character references
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(
+    /&(#\d+|#x[\da-f]+|[a-z][a-z\d]*);/gi,
+    (entity, name: string) => {
+      if (name[0] === "#") {
+        const code =
+          name[1] === "x" || name[1] === "X"
+            ? parseInt(name.slice(2), 16)
+            : parseInt(name.slice(1), 10);
+        return code > 0 && code <= 0x10ffff
+          ? String.fromCodePoint(code)
+          : entity;
+      }
+
+      if (name in NAMED_ENTITIES) {
+        return NAMED_ENTITIES[name];
+      }
+
+      const accented = name.match(/^([a-z])(acute|grave|circ|uml|tilde)$/i);
+      return accented
+        ? (accented[1] + ACCENTS[accented[2]]).normalize("NFC")
+        : entity;
+    },
+  );
+}
+
+// Lowercase words without accents or punctuation, for comparing names
+export function normalizedWords(text: string): string[] {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+// Seconds in an ISO 8601 duration like "PT4M31S" or Bandcamp's "P00H04M31S"
+export function parseIsoDuration(duration: unknown): number | undefined {
+  const match =
+    typeof duration === "string"
+      ? duration.match(
+          /^P(?:(\d+)D)?T?(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?$/i,
+        )
+      : null;
+  if (!match) {
+    return undefined;
+  }
+
+  const [, days = "0", hours = "0", minutes = "0", seconds = "0"] = match;
+  const total =
+    Number(days) * 86400 +
+    Number(hours) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds);
+  return total > 0 ? Math.round(total) : undefined;
+}
+
+function clean(text: string | undefined): string | undefined {
+  const cleaned = text && decodeHtmlEntities(text).replace(/\s+/g, " ").trim();
+  return cleaned || undefined;
+}
+
+function isUrl(text: string | undefined): boolean {
+  return !!text && /^https?:\/\//i.test(text);
+}
+
+// Fill in whatever the first description left out from the second
+function merge(
+  first: Partial<LinkMetadata>,
+  second: Partial<LinkMetadata>,
+): Partial<LinkMetadata> {
+  return {
+    title: first.title ?? second.title,
+    artist: first.artist ?? second.artist,
+    album: first.album ?? second.album,
+    duration: first.duration ?? second.duration,
+  };
+}
+
+// Turn an oEmbed title and author into artist and title. SoundCloud and
+// Audiomack title songs "Song by Artist"; YouTube titles videos
+// "Artist - Song (Official Video)" on channels named anything, apart from the
+// auto-generated "Artist - Topic" ones.
+function fromOEmbed(
+  platform: SongLinkPlatform,
+  oembed: OEmbedResponse,
+): Partial<LinkMetadata> {
+  let title = clean(oembed.title);
+  const artist = clean(oembed.author_name);
+
+  if (platform === "youtube" || platform === "youtubeMusic") {
+    title = title?.replace(VIDEO_DECORATION, "").trim();
+    const topic = artist?.match(/^(.+) - Topic$/)?.[1];
+    const [, videoArtist, videoTitle] =
+      title?.match(/^(.+?)\s+[-–—]\s+(.+)$/) ?? [];
+
+    if (videoTitle) {
+      return { artist: videoArtist, title: videoTitle };
+    }
+    return { title, artist: topic };
+  }
+
+  if (title && artist && title.endsWith(` by ${artist}`)) {
+    title = title.slice(0, -` by ${artist}`.length);
+  }
+
+  return { title, artist };
+}
+
+// The platform's oEmbed endpoint, or with apiUrl (OEMBED_API_URL) a stub
+// server's, at <apiUrl>/<platform>
+async function fetchOEmbed(
+  url: string,
+  platform: SongLinkPlatform,
+  apiUrl?: string,
+): Promise<OEmbedResponse | null> {
+  if (!OEMBED_ENDPOINTS[platform]) {
+    return null;
+  }
+  const endpoint = apiUrl
+    ? `${apiUrl}/${platform}?format=json&url=`
+    : OEMBED_ENDPOINTS[platform];
+
+  try {
+    const response = await fetch(`${endpoint}${encodeURIComponent(url)}`);
+    if (!response.ok) {
+      console.error("oEmbed error:", platform, response.status);
+      return null;
+    }
+
+    return await response.json<OEmbedResponse>();
+  } catch (error) {
+    console.error("Error fetching oEmbed:", error);
+    return null;
+  }
+}
+
+// <meta property|name="..." content="..."> tags, keyed by property or name
+function metaTags(html: string): Map<string, string> {
+  const tags = new Map<string, string>();
+
+  for (const [tag] of html.matchAll(/<meta\s[^>]*>/gi)) {
+    const attributes = new Map<string, string>();
+    for (const [, name, , doubleQuoted, singleQuoted] of tag.matchAll(
+      /([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g,
+    )) {
+      attributes.set(name.toLowerCase(), doubleQuoted ?? singleQuoted);
+    }
+
+    const key = attributes.get("property") ?? attributes.get("name");
+    const content = attributes.get("content");
+    if (key && content !== undefined && !tags.has(key.toLowerCase())) {
+      tags.set(key.toLowerCase(), content);
+    }
+  }
+
+  return tags;
+}
+
+// og:title and the music:* tags. Spotify puts the artist's page in
+// music:musician and the name in music:musician_description, and the length
+// in seconds in music:duration.
+function fromMetaTags(html: string): Partial<LinkMetadata> {
+  const tags = metaTags(html);
+  const musician = [
+    tags.get("music:musician"),
+    tags.get("music:musician_description"),
+  ].find((value) => value && !isUrl(value));
+  const album = tags.get("music:album");
+  const duration = Number(tags.get("music:duration"));
+
+  return {
+    title: clean(tags.get("og:title")),
+    artist: clean(musician),
+    album: isUrl(album) ? undefined : clean(album),
+    duration: duration > 0 ? duration : undefined,
+  };
+}
+
+function nameOf(value: unknown): string | undefined {
+  const item = Array.isArray(value) ? value[0] : value;
+  if (typeof item === "string") {
+    return clean(item);
+  }
+  return item && typeof item === "object" && "name" in item
+    ? clean(String(item.name))
+    : undefined;
+}
+
+function hasType(item: Record<string, unknown>, types: string[]): boolean {
+  const type = item["@type"];
+  return Array.isArray(type)
+    ? type.some((name) => types.includes(name))
+    : types.includes(String(type));
+}
+
+// The schema.org items in the page's JSON-LD, looking inside arrays and
+// @graph, in document order
+function jsonLdItems(html: string): Array<Record<string, unknown>> {
+  const scripts = html.matchAll(
+    /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi,
+  );
+  const items: Array<Record<string, unknown>> = [];
+
+  for (const [, json] of scripts) {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      continue;
+    }
+
+    const queue = [data];
+    while (queue.length > 0) {
+      const item = queue.shift();
+      if (Array.isArray(item)) {
+        queue.push(...item);
+      } else if (item && typeof item === "object") {
+        const record = item as Record<string, unknown>;
+        items.push(record);
+        if (record["@graph"]) {
+          queue.push(record["@graph"]);
+        }
+      }
+    }
+  }
+
+  return items;
+}
+
+// The first schema.org MusicRecording in the page's JSON-LD
+function fromJsonLd(html: string): Partial<LinkMetadata> {
+  const recording = jsonLdItems(html).find((item) =>
+    hasType(item, ["MusicRecording"]),
+  );
+
+  return recording
+    ? {
+        title: nameOf(recording.name),
+        artist: nameOf(recording.byArtist),
+        album: nameOf(recording.inAlbum),
+        duration: parseIsoDuration(recording.duration),
+      }
+    : {};
+}
+
+// The page <title> without the platform's name, as a last resort. It's one
+// string, so it all goes in the title.
+function fromTitleTag(html: string): Partial<LinkMetadata> {
+  const title = clean(html.match(/<title[^>]*>([^<]+)<\/title>/i)?.[1]);
+  const stripped = title?.replace(PLATFORM_SUFFIX, "").trim();
+  return { title: stripped && stripped.length > 3 ? stripped : undefined };
+}
+
+async function fetchPage(url: string): Promise<string | null> {
+  try {
+    const response = await fetch(url, {
+      headers: { "User-Agent": CRAWLER_USER_AGENT },
+    });
+    return response.ok ? await response.text() : null;
+  } catch (error) {
+    console.error("Error fetching page metadata:", error);
+    return null;
+  }
+}
+
+async function fetchPageMetadata(url: string): Promise<Partial<LinkMetadata>> {
+  const html = await fetchPage(url);
+  return html
+    ? [fromJsonLd(html), fromMetaTags(html), fromTitleTag(html)].reduce(merge)
+    : {};
+}
+
+function imageOf(value: unknown): string | undefined {
+  const image = Array.isArray(value) ? value[0] : value;
+  if (typeof image === "string") {
+    return isUrl(image) ? image : undefined;
+  }
+  return image && typeof image === "object" && "url" in image
+    ? imageOf(image.url)
+    : undefined;
+}
+
+// A list of tracks, as an array of MusicRecordings or an ItemList of them
+function listedTracks(value: unknown): ListedTrack[] {
+  const list =
+    value && typeof value === "object" && "itemListElement" in value
+      ? value.itemListElement
+      : value;
+
+  return (Array.isArray(list) ? list : []).flatMap((entry) => {
+    const item: unknown =
+      entry && typeof entry === "object" && "item" in entry
+        ? entry.item
+        : entry;
+    if (!item || typeof item !== "object") {
+      return [];
+    }
+
+    const record = item as Record<string, unknown>;
+    const title = nameOf(record.name);
+    const url = typeof record.url === "string" ? record.url : undefined;
+    return title
+      ? [
+          {
+            title,
+            artist: nameOf(record.byArtist),
+            url: isUrl(url) ? url : undefined,
+          },
+        ]
+      : [];
+  });
+}
+
+// The first playlist, album, artist or podcast episode in the page's JSON-LD
+function collectionFromJsonLd(html: string): Partial<PageDetails> {
+  const item = jsonLdItems(html).find((candidate) =>
+    hasType(candidate, [
+      "MusicPlaylist",
+      "MusicAlbum",
+      "MusicGroup",
+      "PodcastEpisode",
+    ]),
+  );
+  if (!item) {
+    return {};
+  }
+
+  const tracks = listedTracks(item.track ?? item.tracks);
+  const listed = item.track as { numberOfItems?: unknown } | undefined;
+  const trackCount = Number(item.numTracks ?? listed?.numberOfItems);
+
+  return {
+    title: nameOf(item.name),
+    creator:
+      nameOf(item.byArtist) ??
+      nameOf(item.author) ??
+      nameOf(item.creator) ??
+      nameOf(item.partOfSeries),
+    thumbnail_url: imageOf(item.image),
+    track_count: trackCount > 0 ? trackCount : undefined,
+    tracks: tracks.length > 0 ? tracks : undefined,
+  };
+}
+
+// og:title and og:image, and a track count from og:description, which
+// Spotify writes like "Playlist · Someone · 50 items"
+function collectionFromMetaTags(html: string): Partial<PageDetails> {
+  const tags = metaTags(html);
+  const image = tags.get("og:image");
+  const trackCount = Number(
+    tags.get("music:song_count") ??
+      tags
+        .get("og:description")
+        ?.match(/\b(\d+) (?:songs|tracks|items|episodes)\b/i)?.[1],
+  );
+
+  return {
+    title: clean(tags.get("og:title")),
+    thumbnail_url: isUrl(image) ? image : undefined,
+    track_count: trackCount > 0 ? trackCount : undefined,
+  };
+}
+
+// Artist, title and album of the song a music link is for, from the
+// platform's oEmbed endpoint and the page's JSON-LD, OpenGraph tags and
+// <title>, in that order of preference
+export async function extractLinkMetadata(
+  rawUrl: string,
+  oembedApiUrl?: string,
+): Promise<LinkMetadata | null> {
+  // Links are often shared without a scheme
+  const url = /^https?:\/\//i.test(rawUrl) ? rawUrl : `https://${rawUrl}`;
+  const platform = platformFromUrl(url);
+
+  const oembed = platform
+    ? await fetchOEmbed(url, platform, oembedApiUrl)
+    : null;
+  let metadata = platform && oembed ? fromOEmbed(platform, oembed) : {};
+  if (!metadata.title || !metadata.artist) {
+    metadata = merge(metadata, await fetchPageMetadata(url));
+  }
+
+  return metadata.title ? { ...metadata, title: metadata.title } : null;
+}
+
+// The name, maker, artwork and tracks of a playlist, album, artist or podcast
+// episode link, from the platform's oEmbed endpoint and the page's JSON-LD
+// and OpenGraph tags
+export async function extractPageDetails(
+  rawUrl: string,
+  oembedApiUrl?: string,
+): Promise<PageDetails | null> {
+  const url = /^https?:\/\//i.test(rawUrl) ? rawUrl : `https://${rawUrl}`;
+  const platform = platformFromUrl(url);
+  const oembed = platform
+    ? await fetchOEmbed(url, platform, oembedApiUrl)
+    : null;
+  const html = await fetchPage(url);
+
+  const fromJson = html ? collectionFromJsonLd(html) : {};
+  const fromTags = html ? collectionFromMetaTags(html) : {};
+  const fromEmbed = platform && oembed ? fromOEmbed(platform, oembed) : {};
+  const title = fromJson.title ?? fromEmbed.title ?? fromTags.title;
+  if (!title) {
+    return null;
+  }
+
+  return {
+    title,
+    creator: fromJson.creator ?? clean(oembed?.author_name),
+    thumbnail_url:
+      fromJson.thumbnail_url ?? oembed?.thumbnail_url ?? fromTags.thumbnail_url,
+    track_count: fromJson.track_count ?? fromTags.track_count,
+    tracks: fromJson.tracks,
+  };
+}
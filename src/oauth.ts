@@ -0,0 +1,135 @@
+import type { OAuthProvider, OAuthTokenResponse } from "./types";
+import { hmacSha256Hex } from "./crypto";
+
+// How long a connect link handed out in Slack stays valid
+const STATE_TTL = 15 * 60;
+
+// Refresh access tokens a little before they actually expire
+const EXPIRY_MARGIN = 60;
+
+// Sign OAuth state so the callback can trust who started the flow and that
+// the link hasn't expired. Format: base64url(JSON claims).hex signature.
+// Also used for dashboard sessions, with a longer ttl (in seconds).
+export async function createOAuthState(
+  secret: string,
+  claims: Record<string, string>,
+  ttl = STATE_TTL,
+): Promise<string> {
+  const payload = btoa(
+    JSON.stringify({
+      ...claims,
+      exp: Math.floor(Date.now() / 1000) + ttl,
+    }),
+  )
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+  return `${payload}.${await hmacSha256Hex(secret, payload)}`;
+}
+
+// The claims from a state created by createOAuthState, or null if it was
+// tampered with or has expired
+export async function verifyOAuthState(
+  secret: string,
+  state: string | undefined,
+): Promise<Record<string, string> | null> {
+  const [payload, signature] = state?.split(".") ?? [];
+  if (!payload || !signature) {
+    return null;
+  }
+
+  if ((await hmacSha256Hex(secret, payload)) !== signature) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(
+      atob(payload.replace(/-/g, "+").replace(/_/g, "/")),
+    );
+    return claims.exp > Date.now() / 1000 ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+// Store the tokens from a completed OAuth flow for a workspace
+export async function storeOAuthTokens(
+  db: D1Database,
+  teamId: string,
+  provider: OAuthProvider,
+  tokens: OAuthTokenResponse,
+  connectedBy?: string,
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO oauth_tokens
+       (team_id, provider, refresh_token, access_token, access_token_expires_at, connected_by, connected_at)
+       VALUES (?, ?, ?, ?, datetime('now', ?), ?, datetime('now'))
+       ON CONFLICT(team_id, provider) DO UPDATE SET
+         refresh_token = COALESCE(excluded.refresh_token, oauth_tokens.refresh_token),
+         access_token = excluded.access_token,
+         access_token_expires_at = excluded.access_token_expires_at,
+         connected_by = excluded.connected_by,
+         connected_at = excluded.connected_at`,
+    )
+    .bind(
+      teamId,
+      provider,
+      tokens.refresh_token ?? null,
+      tokens.access_token,
+      `+${tokens.expires_in - EXPIRY_MARGIN} seconds`,
+      connectedBy ?? null,
+    )
+    .run();
+}
+
+// A valid access token for the account a workspace connected, refreshing it
+// with the stored refresh token if needed. Null if it hasn't connected one.
+export async function getOAuthAccessToken(
+  db: D1Database,
+  teamId: string,
+  provider: OAuthProvider,
+  refresh: (refreshToken: string) => Promise<OAuthTokenResponse>,
+): Promise<string | null> {
+  const stored = await db
+    .prepare(
+      `SELECT refresh_token, access_token,
+              access_token_expires_at > datetime('now') AS fresh
+       FROM oauth_tokens WHERE team_id = ? AND provider = ?`,
+    )
+    .bind(teamId, provider)
+    .first<{
+      refresh_token: string;
+      access_token: string | null;
+      fresh: number;
+    }>();
+
+  if (!stored) {
+    return null;
+  }
+
+  if (stored.access_token && stored.fresh === 1) {
+    return stored.access_token;
+  }
+
+  const tokens = await refresh(stored.refresh_token);
+
+  await db
+    .prepare(
+      `UPDATE oauth_tokens
+       SET access_token = ?, access_token_expires_at = datetime('now', ?),
+           refresh_token = COALESCE(?, refresh_token)
+       WHERE team_id = ? AND provider = ?`,
+    )
+    .bind(
+      tokens.access_token,
+      `+${tokens.expires_in - EXPIRY_MARGIN} seconds`,
+      tokens.refresh_token ?? null,
+      teamId,
+      provider,
+    )
+    .run();
+
+  return tokens.access_token;
+}
@@ -0,0 +1,126 @@
+import type {
+  OAuthProvider,
+  PlaylistItemStatus,
+  StoredPlaylist,
+} from "./types";
+
+// Failed additions are retried on later syncs until they've failed this often
+export const MAX_PLAYLIST_ITEM_ATTEMPTS = 3;
+
+// On creation, a rolling playlist picks up shares from this far back
+export const ROLLING_PLAYLIST_LOOKBACK = "-7 days";
+
+// Key of the weekly playlist covering a date: the Monday of its week
+export function weeklyPlaylistKey(date: Date): string {
+  const monday = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return `week:${monday.toISOString().slice(0, 10)}`;
+}
+
+export async function findPlaylist(
+  db: D1Database,
+  provider: OAuthProvider,
+  teamId: string,
+  channel: string,
+  playlistKey: string,
+): Promise<StoredPlaylist | null> {
+  return db
+    .prepare(
+      `SELECT playlist_id, playlist_key, title, url, created_at FROM playlists
+       WHERE provider = ? AND team_id = ? AND channel = ? AND playlist_key = ?`,
+    )
+    .bind(provider, teamId, channel, playlistKey)
+    .first<StoredPlaylist>();
+}
+
+export async function listChannelPlaylists(
+  db: D1Database,
+  provider: OAuthProvider,
+  teamId: string,
+  channel: string,
+): Promise<StoredPlaylist[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT playlist_id, playlist_key, title, url, created_at FROM playlists
+       WHERE provider = ? AND team_id = ? AND channel = ?
+       ORDER BY created_at DESC`,
+    )
+    .bind(provider, teamId, channel)
+    .all<StoredPlaylist>();
+
+  return results;
+}
+
+export async function savePlaylist(
+  db: D1Database,
+  provider: OAuthProvider,
+  teamId: string,
+  channel: string,
+  playlist: Omit<StoredPlaylist, "created_at">,
+): Promise<StoredPlaylist> {
+  const saved = await db
+    .prepare(
+      `INSERT INTO playlists
+       (provider, playlist_id, team_id, channel, playlist_key, title, url)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       RETURNING created_at`,
+    )
+    .bind(
+      provider,
+      playlist.playlist_id,
+      teamId,
+      channel,
+      playlist.playlist_key,
+      playlist.title,
+      playlist.url,
+    )
+    .first<{ created_at: string }>();
+
+  return { ...playlist, created_at: saved!.created_at };
+}
+
+// Items already in a playlist, or that have failed too often to try again
+export async function listSettledPlaylistItems(
+  db: D1Database,
+  provider: OAuthProvider,
+  playlistId: string,
+): Promise<Set<string>> {
+  const { results } = await db
+    .prepare(
+      `SELECT item_id FROM playlist_items
+       WHERE provider = ? AND playlist_id = ?
+         AND (status = 'added' OR attempts >= ?)`,
+    )
+    .bind(provider, playlistId, MAX_PLAYLIST_ITEM_ATTEMPTS)
+    .all<{ item_id: string }>();
+
+  return new Set(results.map((row) => row.item_id));
+}
+
+// Record the outcome of adding a share's item to a playlist
+export async function recordPlaylistItem(
+  db: D1Database,
+  provider: OAuthProvider,
+  playlistId: string,
+  itemId: string,
+  shareId: number,
+  status: PlaylistItemStatus,
+  error?: string,
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO playlist_items
+       (provider, playlist_id, item_id, share_id, status, error, attempts)
+       VALUES (?, ?, ?, ?, ?, ?, 1)
+       ON CONFLICT(provider, playlist_id, item_id) DO UPDATE SET
+         share_id = excluded.share_id,
+         status = excluded.status,
+         error = excluded.error,
+         attempts = playlist_items.attempts + 1,
+         updated_at = datetime('now')`,
+    )
+    .bind(provider, playlistId, itemId, shareId, status, error ?? null)
+    .run();
+}
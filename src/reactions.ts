@@ -0,0 +1,53 @@
+import type { SlackReactionEvent } from "./types";
+
+// Shares a reacted-to message belongs to: the original message's shares, or
+// the one share a bot reply was posted for
+const SHARES_FOR_MESSAGE = `SELECT id FROM shared_songs
+  WHERE channel = ?1 AND (message_ts = ?2 OR reply_ts = ?2)
+    AND deleted_at IS NULL`;
+
+// Count skin tone variants as the same reaction
+function emojiName(reaction: string): string {
+  return reaction.replace(/::skin-tone-\d$/, "");
+}
+
+// Keep per-song reaction counts in step with reactions on shared messages and
+// the bot's replies. Reactions on other messages are ignored.
+export async function handleReactionEvent(
+  event: SlackReactionEvent,
+  db: D1Database,
+): Promise<void> {
+  if (event.item.type !== "message") {
+    return;
+  }
+
+  const { channel, ts } = event.item;
+  const emoji = emojiName(event.reaction);
+
+  try {
+    if (event.type === "reaction_added") {
+      await db
+        .prepare(
+          `INSERT INTO song_reactions (share_id, emoji, count)
+           SELECT id, ?3, 1 FROM (${SHARES_FOR_MESSAGE})
+           WHERE true
+           ON CONFLICT(share_id, emoji) DO UPDATE SET count = count + 1`,
+        )
+        .bind(channel, ts, emoji)
+        .run();
+      return;
+    }
+
+    await db.batch([
+      db
+        .prepare(
+          `UPDATE song_reactions SET count = count - 1
+           WHERE emoji = ?3 AND share_id IN (${SHARES_FOR_MESSAGE})`,
+        )
+        .bind(channel, ts, emoji),
+      db.prepare("DELETE FROM song_reactions WHERE count <= 0"),
+    ]);
+  } catch (error) {
+    console.error("Error recording reaction:", error);
+  }
+}
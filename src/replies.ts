@@ -0,0 +1,47 @@
+import type {
+  ChannelSettings,
+  SlackApiResponse,
+  SlackMessageEvent,
+  SlackMessagePayload,
+} from "./types";
+import { callSlack } from "./slack";
+
+// Reply to a shared message the way its channel is set up to: in a thread, in
+// the channel or visible only to the poster. Unfurl mode posts nothing, as the
+// card goes on the message itself. The result only has a ts when the reply
+// can be edited or deleted later.
+export async function postShareReply(
+  botToken: string,
+  settings: Pick<ChannelSettings, "reply_mode" | "youtube_embed">,
+  message: Pick<SlackMessageEvent, "channel" | "user" | "ts">,
+  payload: Omit<SlackMessagePayload, "channel">,
+): Promise<SlackApiResponse> {
+  const reply = {
+    ...payload,
+    channel: message.channel,
+    unfurl_links: true,
+    unfurl_media: settings.youtube_embed,
+  };
+
+  switch (settings.reply_mode) {
+    case "unfurl":
+      return { ok: true };
+
+    case "ephemeral": {
+      const result = await callSlack("chat.postEphemeral", botToken, {
+        ...reply,
+        user: message.user,
+      });
+      return { ok: result.ok, error: result.error };
+    }
+
+    case "channel":
+      return callSlack("chat.postMessage", botToken, reply);
+
+    default:
+      return callSlack("chat.postMessage", botToken, {
+        ...reply,
+        thread_ts: message.ts,
+      });
+  }
+}
@@ -0,0 +1,604 @@
+import type {
+  DeezerCollectionResponse,
+  DeezerSearchResponse,
+  DeezerTrack,
+  DeezerTrackResponse,
+  Env,
+  ItunesLookupResponse,
+  LinkMetadata,
+  LinkType,
+  MusicBrainzRecordingSearchResponse,
+  ResolvedTrack,
+  Resolver,
+  ResolverContext,
+  ResolverName,
+  ResolverOptions,
+  ResolverResult,
+  SongLinkPlatform,
+  SongMetadata,
+} from "./types";
+import { ITUNES_API_URL, lookupItunesTrackCount } from "./itunes";
+import {
+  extractLinkMetadata,
+  extractPageDetails,
+  normalizedWords,
+} from "./metadata";
+import {
+  canonicalSongId,
+  createD1SongLinkCache,
+  entityIdFromUrl,
+  fetchSongLink,
+  linkTypeFromUrl,
+  normalizeMusicUrl,
+  platformFromUrl,
+  shareTitle,
+  songLinkAlbum,
+  songLinkSongId,
+  songLinkTrack,
+  summarizeSongLink,
+} from "./songlink";
+import { searchYouTube } from "./youtube";
+
+const DEFAULT_RESOLVERS: ResolverName[] = [
+  "songlink",
+  "itunes",
+  "deezer",
+  "musicbrainz",
+  "youtube",
+  "page",
+];
+
+const DEEZER_API_URL = "https://api.deezer.com";
+const MUSICBRAINZ_API_URL = "https://musicbrainz.org/ws/2";
+const MUSICBRAINZ_URL = "https://musicbrainz.org";
+
+// MusicBrainz blocks clients that don't say who they are
+const MUSICBRAINZ_USER_AGENT =
+  "slack-songlink-bot/1.0 (https://github.com/Jayphen/slack-song-linker)";
+
+// Search hits less certain than this may well be another song, so the next
+// resolver gets a go. They're still used, as a best guess, if nothing better
+// turns up.
+const CONFIDENT_MATCH = 0.5;
+
+// Below this, a hit is too unlike the song to even guess with
+const MIN_GUESS_CONFIDENCE = 0.25;
+
+const NOT_FOUND: ResolverResult = { ok: false, status: 404 };
+
+// Searches find songs, so they're only any use for links to one
+const TRACKS_ONLY: LinkType[] = ["track"];
+
+// A phrase for Lucene-style query syntax (MusicBrainz, Deezer)
+function quoted(text: string): string {
+  return `"${text.replace(/["\\]/g, "\\$&")}"`;
+}
+
+// How much of a search hit's artist and title appear in the query, 0–1
+function matchConfidence(
+  query: string,
+  artist: string | undefined,
+  title: string | undefined,
+): number {
+  const candidate = normalizedWords(`${artist ?? ""} ${title ?? ""}`);
+  if (candidate.length === 0) {
+    return 0;
+  }
+
+  const queryWords = new Set(normalizedWords(query));
+  return (
+    candidate.filter((word) => queryWords.has(word)).length / candidate.length
+  );
+}
+
+function songLinkResolver(
+  env: Env,
+  { ignoreCachedFailures }: ResolverOptions,
+): Resolver {
+  const cache = createD1SongLinkCache(env.DB);
+
+  return {
+    name: "songlink",
+    linkTypes: ["track", "album"],
+    async resolve(url) {
+      const result = await fetchSongLink(url, cache, {
+        ignoreCachedFailures,
+        apiUrl: env.SONGLINK_API_URL,
+      });
+
+      if (!result.ok) {
+        console.error(
+          "song.link API error:",
+          result.status,
+          result.cached ? "(cached)" : result.errorText,
+        );
+        return { ok: false, status: result.status };
+      }
+
+      const track = songLinkTrack(
+        result.data,
+        await songLinkAlbum(result.data, env.ITUNES_API_URL),
+      );
+
+      // song.link doesn't say how long an album is, but Apple Music does
+      const albumId = Object.values(result.data.linksByPlatform ?? {})
+        .map((link) => link?.entityUniqueId.match(/^ITUNES_ALBUM::(\d+)$/)?.[1])
+        .find(Boolean);
+      if (track.link_type === "album" && albumId) {
+        track.track_count =
+          (await lookupItunesTrackCount(albumId, env.ITUNES_API_URL)) ??
+          undefined;
+      }
+
+      return { ok: true, track };
+    },
+  };
+}
+
+// Apple Music links by id, anything else by searching for its artist and title
+function itunesResolver(env: Env): Resolver {
+  const apiUrl = env.ITUNES_API_URL ?? ITUNES_API_URL;
+
+  return {
+    name: "itunes",
+    linkTypes: TRACKS_ONLY,
+    async resolve(url, context) {
+      const trackId = entityIdFromUrl(url)?.match(/^ITUNES_SONG::(\d+)$/)?.[1];
+      const query = trackId ? null : await context.searchQuery();
+      if (!trackId && !query) {
+        return NOT_FOUND;
+      }
+
+      const response = await fetch(
+        trackId
+          ? `${apiUrl}/lookup?id=${encodeURIComponent(trackId)}&entity=song`
+          : `${apiUrl}/search?${new URLSearchParams({
+              term: query ?? "",
+              media: "music",
+              entity: "song",
+              limit: "1",
+            })}`,
+      );
+
+      if (!response.ok) {
+        console.error("iTunes API error:", response.status);
+        return { ok: false, status: response.status };
+      }
+
+      const data: ItunesLookupResponse = await response.json();
+      const song = data.results?.find((result) => result.kind === "song");
+      if (!song?.trackId) {
+        return NOT_FOUND;
+      }
+
+      return {
+        ok: true,
+        track: {
+          resolver: "itunes",
+          confidence: query
+            ? matchConfidence(query, song.artistName, song.trackName)
+            : 1,
+          url: song.trackViewUrl,
+          title: song.trackName,
+          artist: song.artistName,
+          album: song.collectionName,
+          entity_type: "song",
+          link_type: "track",
+          entity_unique_id: `ITUNES_SONG::${song.trackId}`,
+          thumbnail_url: song.artworkUrl100,
+          links: song.trackViewUrl ? { appleMusic: song.trackViewUrl } : {},
+        },
+      };
+    },
+  };
+}
+
+function deezerTrack(track: DeezerTrack, confidence: number): ResolvedTrack {
+  return {
+    resolver: "deezer",
+    confidence,
+    url: track.link,
+    title: track.title,
+    artist: track.artist?.name,
+    album: track.album?.title,
+    entity_type: "song",
+    link_type: "track",
+    entity_unique_id: `DEEZER_SONG::${track.id}`,
+    thumbnail_url: track.album?.cover_medium,
+    links: { deezer: track.link },
+  };
+}
+
+// Deezer links by id, anything else by searching for its artist and title
+function deezerResolver(env: Env): Resolver {
+  const apiUrl = env.DEEZER_API_URL ?? DEEZER_API_URL;
+
+  return {
+    name: "deezer",
+    linkTypes: TRACKS_ONLY,
+    async resolve(url, context) {
+      const trackId = entityIdFromUrl(url)?.match(/^DEEZER_SONG::(\d+)$/)?.[1];
+
+      if (trackId) {
+        const response = await fetch(`${apiUrl}/track/${trackId}`);
+        if (!response.ok) {
+          console.error("Deezer API error:", response.status);
+          return { ok: false, status: response.status };
+        }
+
+        const data: DeezerTrackResponse = await response.json();
+        return data.error
+          ? NOT_FOUND
+          : { ok: true, track: deezerTrack(data, 1) };
+      }
+
+      const metadata = await context.metadata();
+      const query = await context.searchQuery();
+      if (!metadata || !query) {
+        return NOT_FOUND;
+      }
+
+      const search = metadata.artist
+        ? `artist:${quoted(metadata.artist)} track:${quoted(metadata.title)}`
+        : query;
+      const response = await fetch(
+        `${apiUrl}/search?q=${encodeURIComponent(search)}&limit=1`,
+      );
+      if (!response.ok) {
+        console.error("Deezer API error:", response.status);
+        return { ok: false, status: response.status };
+      }
+
+      const data: DeezerSearchResponse = await response.json();
+      const track = data.data?.[0];
+      if (!track) {
+        return NOT_FOUND;
+      }
+
+      return {
+        ok: true,
+        track: deezerTrack(
+          track,
+          matchConfidence(query, track.artist?.name, track.title),
+        ),
+      };
+    },
+  };
+}
+
+// Searches recordings for the link's artist and title. MusicBrainz has no
+// links to streaming services, but does know the artist, title and album.
+function musicBrainzResolver(env: Env): Resolver {
+  const apiUrl = env.MUSICBRAINZ_API_URL ?? MUSICBRAINZ_API_URL;
+
+  return {
+    name: "musicbrainz",
+    linkTypes: TRACKS_ONLY,
+    async resolve(url, context) {
+      const metadata = await context.metadata();
+      const query = await context.searchQuery();
+      if (!metadata || !query) {
+        return NOT_FOUND;
+      }
+
+      const search = metadata.artist
+        ? `recording:${quoted(metadata.title)} AND artist:${quoted(metadata.artist)}`
+        : query;
+      const response = await fetch(
+        `${apiUrl}/recording?query=${encodeURIComponent(search)}&fmt=json&limit=1`,
+        { headers: { "User-Agent": MUSICBRAINZ_USER_AGENT } },
+      );
+      if (!response.ok) {
+        console.error("MusicBrainz API error:", response.status);
+        return { ok: false, status: response.status };
+      }
+
+      const data: MusicBrainzRecordingSearchResponse = await response.json();
+      const recording = data.recordings?.[0];
+      if (!recording) {
+        return NOT_FOUND;
+      }
+
+      const artist = recording["artist-credit"]
+        ?.map((credit) => credit.name + (credit.joinphrase ?? ""))
+        .join("");
+
+      return {
+        ok: true,
+        track: {
+          resolver: "musicbrainz",
+          confidence: Math.min(
+            recording.score / 100,
+            matchConfidence(query, artist, recording.title),
+          ),
+          url: `${MUSICBRAINZ_URL}/recording/${recording.id}`,
+          title: recording.title,
+          artist,
+          album: recording.releases?.[0]?.title,
+          entity_type: "song",
+          link_type: "track",
+          links: {},
+        },
+      };
+    },
+  };
+}
+
+// Searches YouTube for the link's artist and title. The hit is only a video,
+// so it's described with what was searched for.
+function youTubeResolver(env: Env): Resolver | null {
+  const apiKey = env.YOUTUBE_API_KEY;
+  if (!apiKey) {
+    return null;
+  }
+
+  return {
+    name: "youtube",
+    linkTypes: TRACKS_ONLY,
+    async resolve(url, context) {
+      const metadata = await context.metadata();
+      const query = await context.searchQuery();
+      const match =
+        metadata && query
+          ? await searchYouTube(
+              { query, ...metadata },
+              apiKey,
+              env.YOUTUBE_API_URL,
+            )
+          : null;
+      if (!metadata || !match) {
+        return NOT_FOUND;
+      }
+
+      return {
+        ok: true,
+        track: {
+          resolver: "youtube",
+          confidence: match.confidence,
+          title: metadata.title,
+          artist: metadata.artist,
+          album: metadata.album,
+          link_type: "track",
+          entity_unique_id: entityIdFromUrl(match.url) ?? undefined,
+          links: { youtube: match.url },
+        },
+      };
+    },
+  };
+}
+
+// Deezer playlists and albums, with their tracks
+async function deezerCollection(
+  apiUrl: string,
+  type: "playlist" | "album",
+  id: string,
+): Promise<ResolverResult> {
+  const response = await fetch(`${apiUrl}/${type}/${id}`);
+  if (!response.ok) {
+    console.error("Deezer API error:", response.status);
+    return { ok: false, status: response.status };
+  }
+
+  const data: DeezerCollectionResponse = await response.json();
+  if (data.error) {
+    return NOT_FOUND;
+  }
+
+  return {
+    ok: true,
+    track: {
+      resolver: "page",
+      confidence: 1,
+      url: data.link,
+      title: data.title,
+      artist: data.creator?.name ?? data.artist?.name,
+      album: type === "album" ? data.title : undefined,
+      entity_type: type === "album" ? "album" : undefined,
+      link_type: type,
+      track_count: data.nb_tracks,
+      tracks: data.tracks?.data.map((track) => ({
+        title: track.title,
+        artist: track.artist?.name,
+        url: track.link,
+      })),
+      entity_unique_id: type === "album" ? `DEEZER_ALBUM::${id}` : undefined,
+      thumbnail_url: data.picture_medium ?? data.cover_medium,
+      links: {},
+    },
+  };
+}
+
+// Playlists, artists and podcast episodes, which song.link doesn't do, and
+// albums it couldn't find, described by their own page. There's nothing to
+// link them to on other platforms.
+function pageResolver(env: Env): Resolver {
+  const deezerApiUrl = env.DEEZER_API_URL ?? DEEZER_API_URL;
+
+  return {
+    name: "page",
+    linkTypes: ["album", "playlist", "artist", "episode"],
+    async resolve(url, context) {
+      const pageUrl = normalizeMusicUrl(url);
+      const deezer =
+        platformFromUrl(url) === "deezer"
+          ? pageUrl.match(/\/(playlist|album)\/(\d+)/)
+          : null;
+      if (deezer) {
+        return deezerCollection(
+          deezerApiUrl,
+          deezer[1] as "playlist" | "album",
+          deezer[2],
+        );
+      }
+
+      const details = await extractPageDetails(pageUrl, env.OEMBED_API_URL);
+      if (!details) {
+        return NOT_FOUND;
+      }
+
+      return {
+        ok: true,
+        track: {
+          resolver: "page",
+          confidence: 1,
+          url: pageUrl,
+          title: details.title,
+          artist: details.creator,
+          album: context.linkType === "album" ? details.title : undefined,
+          entity_type: context.linkType === "album" ? "album" : undefined,
+          link_type: context.linkType,
+          track_count: details.track_count,
+          tracks: details.tracks,
+          entity_unique_id: entityIdFromUrl(url) ?? undefined,
+          thumbnail_url: details.thumbnail_url,
+          links: {},
+        },
+      };
+    },
+  };
+}
+
+const RESOLVERS: Record<
+  ResolverName,
+  (env: Env, options: ResolverOptions) => Resolver | null
+> = {
+  songlink: songLinkResolver,
+  itunes: itunesResolver,
+  deezer: deezerResolver,
+  musicbrainz: musicBrainzResolver,
+  youtube: youTubeResolver,
+  page: pageResolver,
+};
+
+// The resolvers set in RESOLVERS, in order. YouTube is left out without an
+// API key.
+export function resolverChain(
+  env: Env,
+  options: ResolverOptions = {},
+): Resolver[] {
+  const names = env.RESOLVERS
+    ? env.RESOLVERS.split(",").map((name) => name.trim())
+    : DEFAULT_RESOLVERS;
+
+  return names.flatMap((name) => {
+    if (!(name in RESOLVERS)) {
+      console.error("Unknown resolver:", name);
+      return [];
+    }
+
+    const resolver = RESOLVERS[name as ResolverName](env, options);
+    return resolver ? [resolver] : [];
+  });
+}
+
+// Whether a track is only a best guess, to be presented as one
+export function isBestGuess(track: ResolvedTrack): boolean {
+  return track.confidence < CONFIDENT_MATCH;
+}
+
+// Try each resolver that handles the kind of link in turn until one is
+// confident it found the song, falling back to the likeliest best guess. When
+// there isn't one either, the first failure is returned, so with song.link
+// first its status decides whether the lookup is retried later. Links whose
+// URL doesn't say what they're to are taken to be tracks.
+export async function resolveMusicLink(
+  url: string,
+  resolvers: Resolver[],
+  oembedApiUrl?: string,
+): Promise<ResolverResult> {
+  const linkType = linkTypeFromUrl(url) ?? "track";
+  let metadata: Promise<LinkMetadata | null> | undefined;
+  const context: ResolverContext = {
+    linkType,
+    metadata: () => (metadata ??= extractLinkMetadata(url, oembedApiUrl)),
+    async searchQuery() {
+      const found = await context.metadata();
+      return found
+        ? [found.artist, found.title].filter(Boolean).join(" ")
+        : null;
+    },
+  };
+
+  let failure: ResolverResult | null = null;
+  let bestGuess: ResolvedTrack | null = null;
+
+  for (const resolver of resolvers) {
+    if (!resolver.linkTypes.includes(linkType)) {
+      continue;
+    }
+
+    let result: ResolverResult;
+    try {
+      result = await resolver.resolve(url, context);
+    } catch (error) {
+      console.error(`Error resolving with ${resolver.name}:`, error);
+      result = { ok: false, status: 500 };
+    }
+
+    if (result.ok && !isBestGuess(result.track)) {
+      return result;
+    }
+
+    if (result.ok) {
+      console.log(
+        `Uncertain ${resolver.name} match:`,
+        result.track.artist,
+        result.track.title,
+        result.track.confidence,
+      );
+
+      if (
+        result.track.confidence >= MIN_GUESS_CONFIDENCE &&
+        result.track.confidence > (bestGuess?.confidence ?? 0)
+      ) {
+        bestGuess = result.track;
+      }
+    }
+
+    failure ??= result.ok ? NOT_FOUND : result;
+  }
+
+  if (bestGuess) {
+    return { ok: true, track: bestGuess };
+  }
+  return failure ?? NOT_FOUND;
+}
+
+// The id a track's shares are matched on. Tracks song.link didn't resolve
+// only have the ids in their links' URLs.
+export function trackSongId(track: ResolvedTrack): string | undefined {
+  if (track.songlink) {
+    return songLinkSongId(track.songlink);
+  }
+
+  const entityIds: Partial<Record<SongLinkPlatform, string>> = {};
+  for (const [platform, url] of Object.entries(track.links)) {
+    const entityId = url && entityIdFromUrl(url);
+    if (entityId) {
+      entityIds[platform as SongLinkPlatform] = entityId;
+    }
+  }
+  return canonicalSongId(entityIds, track.entity_unique_id);
+}
+
+// The song metadata from a resolved track that we store with a share
+export function summarizeTrack(track: ResolvedTrack): SongMetadata {
+  if (track.songlink) {
+    return summarizeSongLink(track.songlink, track.album);
+  }
+
+  return {
+    youtube_url: track.links.youtube ?? track.links.youtubeMusic,
+    title: shareTitle(track.link_type, track.artist, track.title),
+    entity_unique_id: track.entity_unique_id,
+    song_id: trackSongId(track),
+    artist: track.artist,
+    // Without an artist the title may be a whole page title
+    track_title: track.artist ? track.title : undefined,
+    album: track.album,
+    entity_type: track.entity_type,
+    link_type: track.link_type,
+    thumbnail_url: track.thumbnail_url,
+    platform_links: track.links,
+  };
+}
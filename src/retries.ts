@@ -0,0 +1,173 @@
+import type {
+  ChannelSettings,
+  Env,
+  SlackMessagePayload,
+  SongLinkRetry,
+} from "./types";
+import { buildTrackReply } from "./blocks";
+import { getBotToken } from "./installations";
+import { postShareReply } from "./replies";
+import { resolveMusicLink, resolverChain, summarizeTrack } from "./resolvers";
+import { getChannelSettings } from "./settings";
+import {
+  resolveSongShare,
+  setSongShareReplyTs,
+  setSongShareStatus,
+} from "./shares";
+import { callSlack } from "./slack";
+
+// Backoff for failed song.link lookups: 5, 10, 20, 40, 80 minutes
+const RETRY_BASE_DELAY = 5 * 60;
+const MAX_RETRY_ATTEMPTS = 5;
+
+// Retries processed per scheduled run, to stay well within song.link limits
+const RETRY_BATCH_SIZE = 20;
+
+// Rate limiting and server errors are worth retrying; anything else
+// (unsupported link, not found) will fail the same way next time
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// Queue a pending share for another song.link lookup after the first backoff
+export async function scheduleRetry(
+  db: D1Database,
+  shareId: number,
+): Promise<void> {
+  try {
+    await db
+      .prepare(
+        `INSERT OR IGNORE INTO songlink_retries
+         (share_id, attempts, next_attempt_at)
+         VALUES (?, 0, datetime('now', ?))`,
+      )
+      .bind(shareId, `+${RETRY_BASE_DELAY} seconds`)
+      .run();
+  } catch (error) {
+    console.error("Error scheduling song.link retry:", error);
+  }
+}
+
+// Retry due lookups. Successful ones turn the error reply into the normal
+// song reply; ones that run out of attempts are marked failed.
+export async function processPendingRetries(env: Env): Promise<void> {
+  const { results: retries } = await env.DB.prepare(
+    `SELECT r.share_id, r.attempts,
+            s.reply_ts, s.original_url, s.channel, s.message_ts, s.shared_by,
+            s.team_id
+     FROM songlink_retries r
+     JOIN shared_songs s ON s.id = r.share_id
+     WHERE r.next_attempt_at <= datetime('now')
+     ORDER BY r.next_attempt_at
+     LIMIT ?`,
+  )
+    .bind(RETRY_BATCH_SIZE)
+    .all<SongLinkRetry>();
+
+  // The same resolvers as the first lookup, so a retry can find the song
+  // anywhere it could have been found then
+  const resolvers = resolverChain(env, { ignoreCachedFailures: true });
+
+  for (const retry of retries) {
+    try {
+      const botToken = await getBotToken(env, retry.team_id);
+      if (!botToken) {
+        // The workspace uninstalled the app; nowhere to post the result
+        await deleteRetry(env.DB, retry.share_id);
+        continue;
+      }
+
+      const settings = await getChannelSettings(env.DB, retry.channel);
+      const result = await resolveMusicLink(
+        retry.original_url,
+        resolvers,
+        env.OEMBED_API_URL,
+      );
+
+      if (result.ok) {
+        await resolveSongShare(
+          env.DB,
+          retry.share_id,
+          summarizeTrack(result.track),
+        );
+        await updateOrPostReply(
+          env.DB,
+          botToken,
+          settings,
+          retry,
+          buildTrackReply(result.track, null, settings),
+        );
+        await deleteRetry(env.DB, retry.share_id);
+        continue;
+      }
+
+      const attempts = retry.attempts + 1;
+
+      if (isRetryableStatus(result.status) && attempts < MAX_RETRY_ATTEMPTS) {
+        await env.DB.prepare(
+          `UPDATE songlink_retries
+           SET attempts = ?, last_status = ?, next_attempt_at = datetime('now', ?)
+           WHERE share_id = ?`,
+        )
+          .bind(
+            attempts,
+            result.status,
+            `+${RETRY_BASE_DELAY * 2 ** attempts} seconds`,
+            retry.share_id,
+          )
+          .run();
+        continue;
+      }
+
+      console.error(
+        "Giving up on song.link lookup:",
+        retry.original_url,
+        result.status,
+      );
+      await setSongShareStatus(env.DB, retry.share_id, "failed");
+      await updateOrPostReply(env.DB, botToken, settings, retry, {
+        text: `⚠️ Sorry, I still couldn't process that music link after ${attempts} retries. The song.link API returned an error (${result.status}).`,
+      });
+      await deleteRetry(env.DB, retry.share_id);
+    } catch (error) {
+      console.error("Error retrying song.link lookup:", error);
+    }
+  }
+}
+
+// Edit the bot's original error reply, or post a fresh reply the way the
+// channel wants it if there's no reply to edit (posting the error failed, or
+// it was ephemeral)
+async function updateOrPostReply(
+  db: D1Database,
+  botToken: string,
+  settings: ChannelSettings,
+  retry: SongLinkRetry,
+  payload: Omit<SlackMessagePayload, "channel">,
+): Promise<void> {
+  const slackData = retry.reply_ts
+    ? await callSlack("chat.update", botToken, {
+        ...payload,
+        channel: retry.channel,
+        ts: retry.reply_ts,
+      })
+    : await postShareReply(
+        botToken,
+        settings,
+        { channel: retry.channel, user: retry.shared_by, ts: retry.message_ts },
+        payload,
+      );
+
+  if (!slackData.ok) {
+    console.error("Slack API error:", slackData.error);
+  } else if (!retry.reply_ts && slackData.ts) {
+    await setSongShareReplyTs(db, retry.share_id, slackData.ts);
+  }
+}
+
+async function deleteRetry(db: D1Database, shareId: number): Promise<void> {
+  await db
+    .prepare(`DELETE FROM songlink_retries WHERE share_id = ?`)
+    .bind(shareId)
+    .run();
+}
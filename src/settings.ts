@@ -0,0 +1,105 @@
+import type { ChannelSettings } from "./types";
+
+const DEFAULT_SETTINGS: ChannelSettings = {
+  enabled: true,
+  reply_mode: "thread",
+  platforms: null,
+  youtube_embed: true,
+  store_shares: true,
+  youtube_fallback: true,
+  show_duplicates: true,
+  digest_enabled: false,
+  digest_day: 1,
+  digest_hour: 9,
+  youtube_playlist_enabled: false,
+  youtube_weekly_playlists: false,
+  spotify_playlist_enabled: false,
+  spotify_album_tracks: false,
+  feed_enabled: false,
+  feed_token: null,
+  team_id: null,
+};
+
+// Settings stored as 0/1 integers in D1
+const BOOLEAN_SETTINGS = new Set<keyof ChannelSettings>([
+  "enabled",
+  "youtube_embed",
+  "store_shares",
+  "youtube_fallback",
+  "show_duplicates",
+  "digest_enabled",
+  "youtube_playlist_enabled",
+  "youtube_weekly_playlists",
+  "spotify_playlist_enabled",
+  "spotify_album_tracks",
+  "feed_enabled",
+]);
+
+// Settings stored as JSON text in D1
+const JSON_SETTINGS = new Set<keyof ChannelSettings>(["platforms"]);
+
+function fromRow(row: Record<string, unknown>): ChannelSettings {
+  const settings: Record<string, unknown> = { ...DEFAULT_SETTINGS };
+
+  for (const key of Object.keys(DEFAULT_SETTINGS) as Array<
+    keyof ChannelSettings
+  >) {
+    if (row[key] !== null && row[key] !== undefined) {
+      settings[key] = BOOLEAN_SETTINGS.has(key)
+        ? row[key] === 1
+        : JSON_SETTINGS.has(key)
+          ? JSON.parse(row[key] as string)
+          : row[key];
+    }
+  }
+
+  return settings as unknown as ChannelSettings;
+}
+
+function toColumnValue(value: unknown): unknown {
+  if (typeof value === "boolean") {
+    return value ? 1 : 0;
+  }
+  return Array.isArray(value) ? JSON.stringify(value) : value;
+}
+
+// Settings for a channel, falling back to the defaults if it has none stored
+export async function getChannelSettings(
+  db: D1Database,
+  channel: string,
+): Promise<ChannelSettings> {
+  try {
+    const row = await db
+      .prepare(`SELECT * FROM channel_settings WHERE channel = ?`)
+      .bind(channel)
+      .first<Record<string, unknown>>();
+
+    return row ? fromRow(row) : DEFAULT_SETTINGS;
+  } catch (error) {
+    console.error("Error loading channel settings:", error);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+// Change some of a channel's settings, leaving the rest as they are
+export async function updateChannelSettings(
+  db: D1Database,
+  channel: string,
+  changes: Partial<ChannelSettings>,
+): Promise<void> {
+  const columns = Object.keys(changes) as Array<keyof ChannelSettings>;
+  if (columns.length === 0) {
+    return;
+  }
+
+  await db
+    .prepare(
+      `INSERT INTO channel_settings (channel, ${columns.join(", ")})
+       VALUES (?, ${columns.map(() => "?").join(", ")})
+       ON CONFLICT(channel) DO UPDATE SET
+         ${columns.map((column) => `${column} = excluded.${column}`).join(", ")},
+         updated_at = datetime('now')`,
+    )
+    .bind(channel, ...columns.map((column) => toColumnValue(changes[column])))
+    .run();
+}
@@ -0,0 +1,335 @@
+import type {
+  PreviousShares,
+  ShareSummary,
+  SharedSong,
+  SharedSongRecord,
+  ShareStatus,
+  SongMetadata,
+  StoredShare,
+} from "./types";
+import { PUBLIC_CHANNEL_SQL } from "./channels";
+
+// Columns filled in from the resolved link, in a fixed order for binding
+const METADATA_COLUMNS = [
+  "songlink_url",
+  "youtube_url",
+  "title",
+  "entity_unique_id",
+  "song_id",
+  "artist",
+  "track_title",
+  "album",
+  "entity_type",
+  "link_type",
+  "thumbnail_url",
+  "platform_links",
+] as const;
+
+function metadataValues(song: SongMetadata): Array<string | null> {
+  return METADATA_COLUMNS.map((column) => {
+    const value = song[column];
+    if (value === undefined) {
+      return null;
+    }
+    return typeof value === "object" ? JSON.stringify(value) : value;
+  });
+}
+
+// Store a shared song in D1, returning the row id (including when the share
+// was already stored). A share that was deleted and is posted again, e.g. by
+// editing the link back into a message, is restored.
+export async function storeSongShare(
+  db: D1Database,
+  song: SharedSong,
+): Promise<number | null> {
+  try {
+    await db
+      .prepare(
+        `INSERT INTO shared_songs
+         (original_url, source_platform, shared_by, channel, message_ts, reply_ts, status, team_id,
+          ${METADATA_COLUMNS.join(", ")})
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ${METADATA_COLUMNS.map(() => "?").join(", ")})
+         ON CONFLICT(channel, message_ts, original_url) DO UPDATE SET
+           ${METADATA_COLUMNS.map((column) => `${column} = excluded.${column}`).join(", ")},
+           reply_ts = excluded.reply_ts,
+           status = excluded.status,
+           deleted_at = NULL
+         WHERE shared_songs.deleted_at IS NOT NULL`,
+      )
+      .bind(
+        song.original_url,
+        song.source_platform ?? null,
+        song.shared_by,
+        song.channel,
+        song.message_ts,
+        song.reply_ts ?? null,
+        song.status ?? "resolved",
+        song.team_id ?? null,
+        ...metadataValues(song),
+      )
+      .run();
+
+    return await db
+      .prepare(
+        `SELECT id FROM shared_songs
+         WHERE channel = ? AND message_ts = ? AND original_url = ?`,
+      )
+      .bind(song.channel, song.message_ts, song.original_url)
+      .first<number>("id");
+  } catch (error) {
+    console.error("Error storing song share:", error);
+    return null;
+  }
+}
+
+// Fill in a pending share once its link has been resolved
+export async function resolveSongShare(
+  db: D1Database,
+  id: number,
+  song: SongMetadata,
+): Promise<void> {
+  await db
+    .prepare(
+      `UPDATE shared_songs
+       SET ${METADATA_COLUMNS.map((column) => `${column} = ?`).join(", ")},
+           status = 'resolved'
+       WHERE id = ?`,
+    )
+    .bind(...metadataValues(song), id)
+    .run();
+}
+
+export async function setSongShareStatus(
+  db: D1Database,
+  id: number,
+  status: ShareStatus,
+): Promise<void> {
+  await db
+    .prepare(`UPDATE shared_songs SET status = ? WHERE id = ?`)
+    .bind(status, id)
+    .run();
+}
+
+export async function setSongShareReplyTs(
+  db: D1Database,
+  id: number,
+  replyTs: string,
+): Promise<void> {
+  await db
+    .prepare(`UPDATE shared_songs SET reply_ts = ? WHERE id = ?`)
+    .bind(replyTs, id)
+    .run();
+}
+
+// The live shares stored for a Slack message
+export async function findMessageShares(
+  db: D1Database,
+  channel: string,
+  messageTs: string,
+): Promise<StoredShare[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT id, original_url, reply_ts FROM shared_songs
+       WHERE channel = ? AND message_ts = ? AND deleted_at IS NULL`,
+    )
+    .bind(channel, messageTs)
+    .all<StoredShare>();
+
+  return results;
+}
+
+// Mark shares deleted and drop any lookups still pending for them
+export async function markSongSharesDeleted(
+  db: D1Database,
+  ids: number[],
+): Promise<void> {
+  if (ids.length === 0) {
+    return;
+  }
+
+  const placeholders = ids.map(() => "?").join(", ");
+  await db.batch([
+    db
+      .prepare(
+        `UPDATE shared_songs SET deleted_at = datetime('now')
+         WHERE id IN (${placeholders})`,
+      )
+      .bind(...ids),
+    db
+      .prepare(
+        `DELETE FROM songlink_retries WHERE share_id IN (${placeholders})`,
+      )
+      .bind(...ids),
+  ]);
+}
+
+// Earlier messages in a channel that shared the same song, from any
+// platform, not counting the given message
+export async function findPreviousShares(
+  db: D1Database,
+  channel: string,
+  songId: string,
+  messageTs: string,
+): Promise<PreviousShares | null> {
+  const row = await db
+    .prepare(
+      `SELECT shared_by AS first_shared_by, message_ts AS first_message_ts,
+              (SELECT COUNT(DISTINCT message_ts) FROM shared_songs
+               WHERE channel = ?1 AND song_id = ?2 AND message_ts != ?3
+                 AND deleted_at IS NULL) AS count
+       FROM shared_songs
+       WHERE channel = ?1 AND song_id = ?2 AND message_ts != ?3
+         AND deleted_at IS NULL
+       ORDER BY CAST(message_ts AS REAL)
+       LIMIT 1`,
+    )
+    .bind(channel, songId, messageTs)
+    .first<PreviousShares>();
+
+  return row && row.count > 0 ? row : null;
+}
+
+// Full-text search over titles, artists and albums, best matches first.
+// Each word of the query matches as a prefix, so "khruang" finds Khruangbin.
+// Only shares from the given workspace are searched, and only those posted
+// in public channels or in the channel searched from, so shares from private
+// channels and DMs aren't shown to people outside them.
+export async function searchSongShares(
+  db: D1Database,
+  query: string,
+  team: string,
+  channel: string,
+  limit = 10,
+): Promise<ShareSummary[]> {
+  const terms = query
+    .split(/\s+/)
+    .map((term) => term.replace(/"/g, ""))
+    .filter(Boolean)
+    .map((term) => `"${term}"*`);
+
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const { results } = await db
+    .prepare(
+      `SELECT s.id, s.title, s.original_url, s.songlink_url, s.shared_by,
+              s.channel, s.message_ts, s.shared_at
+       FROM shared_songs_fts
+       JOIN shared_songs s ON s.id = shared_songs_fts.rowid
+       WHERE shared_songs_fts MATCH ? AND s.team_id = ? AND s.deleted_at IS NULL
+         AND (s.channel = ? OR s.${PUBLIC_CHANNEL_SQL})
+       ORDER BY rank
+       LIMIT ?`,
+    )
+    .bind(terms.join(" "), team, channel, limit)
+    .all<ShareSummary>();
+
+  return results;
+}
+
+export interface SongShareFilter {
+  // Slack workspace
+  team?: string;
+  channel?: string;
+  user?: string;
+  // Inclusive bounds on shared_at, as anything SQLite's datetime() accepts
+  from?: string;
+  to?: string;
+  platform?: string;
+  hasYoutube?: boolean;
+  // Only shares from public channels
+  publicOnly?: boolean;
+  // Keyset cursor: only shares listed after this one
+  after?: { shared_at: string; id: number };
+}
+
+const RECORD_COLUMNS = `id, original_url, source_platform, shared_by, channel,
+  message_ts, reply_ts, status, shared_at, team_id, ${METADATA_COLUMNS.join(", ")}`;
+
+function fromRecordRow(row: Record<string, unknown>): SharedSongRecord {
+  return {
+    ...row,
+    platform_links: row.platform_links
+      ? JSON.parse(row.platform_links as string)
+      : undefined,
+  } as SharedSongRecord;
+}
+
+// Shares matching a filter, newest first. Deleted shares are left out.
+export async function listSongShares(
+  db: D1Database,
+  filter: SongShareFilter,
+  limit: number,
+): Promise<SharedSongRecord[]> {
+  const conditions = ["deleted_at IS NULL"];
+  const params: Array<string | number> = [];
+
+  if (filter.team) {
+    conditions.push("team_id = ?");
+    params.push(filter.team);
+  }
+  if (filter.channel) {
+    conditions.push("channel = ?");
+    params.push(filter.channel);
+  }
+  if (filter.user) {
+    conditions.push("shared_by = ?");
+    params.push(filter.user);
+  }
+  if (filter.from) {
+    conditions.push("shared_at >= datetime(?)");
+    params.push(filter.from);
+  }
+  if (filter.to) {
+    conditions.push("shared_at <= datetime(?)");
+    params.push(filter.to);
+  }
+  if (filter.platform) {
+    conditions.push("source_platform = ?");
+    params.push(filter.platform);
+  }
+  if (filter.hasYoutube !== undefined) {
+    conditions.push(
+      filter.hasYoutube ? "youtube_url IS NOT NULL" : "youtube_url IS NULL",
+    );
+  }
+  if (filter.publicOnly) {
+    conditions.push(PUBLIC_CHANNEL_SQL);
+  }
+  if (filter.after) {
+    conditions.push("(shared_at < ? OR (shared_at = ? AND id < ?))");
+    params.push(
+      filter.after.shared_at,
+      filter.after.shared_at,
+      filter.after.id,
+    );
+  }
+
+  const { results } = await db
+    .prepare(
+      `SELECT ${RECORD_COLUMNS} FROM shared_songs
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY shared_at DESC, id DESC
+       LIMIT ?`,
+    )
+    .bind(...params, limit)
+    .all<Record<string, unknown>>();
+
+  return results.map(fromRecordRow);
+}
+
+export async function getSongShare(
+  db: D1Database,
+  id: number,
+): Promise<SharedSongRecord | null> {
+  const row = await db
+    .prepare(
+      `SELECT ${RECORD_COLUMNS} FROM shared_songs
+       WHERE id = ? AND deleted_at IS NULL`,
+    )
+    .bind(id)
+    .first<Record<string, unknown>>();
+
+  return row ? fromRecordRow(row) : null;
+}
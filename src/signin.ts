@@ -0,0 +1,118 @@
+import type { Context } from "hono";
+import { deleteCookie, getCookie, setCookie } from "hono/cookie";
+import type { Env, SlackIdToken } from "./types";
+import { hmacSha256Hex } from "./crypto";
+import { createOAuthState, verifyOAuthState } from "./oauth";
+import { callSlack } from "./slack";
+
+const SLACK_AUTHORIZE_URL = "https://slack.com/openid/connect/authorize";
+const SLACK_TOKEN_URL = "https://slack.com/api/openid.connect.token";
+
+const SESSION_COOKIE = "songlink_session";
+const SESSION_TTL = 7 * 24 * 60 * 60;
+
+// Who is signed in to the dashboard
+export interface DashboardSession {
+  user: string;
+  name: string;
+  team: string;
+}
+
+export function slackSignInUrl(
+  clientId: string,
+  redirectUri: string,
+  state: string,
+  nonce: string,
+): string {
+  const params = new URLSearchParams({
+    response_type: "code",
+    scope: "openid profile",
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    state,
+    nonce,
+  });
+  return `${SLACK_AUTHORIZE_URL}?${params}`;
+}
+
+// Exchange a Sign in with Slack code for the user's ID token claims. The
+// token comes straight from Slack over TLS, so its signature isn't checked.
+export async function exchangeSlackSignInCode(
+  env: Env,
+  code: string,
+  redirectUri: string,
+): Promise<SlackIdToken> {
+  const response = await fetch(SLACK_TOKEN_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: env.SLACK_CLIENT_ID ?? "",
+      client_secret: env.SLACK_CLIENT_SECRET ?? "",
+      code,
+      redirect_uri: redirectUri,
+    }),
+  });
+  const data = await response.json<{
+    ok: boolean;
+    error?: string;
+    id_token?: string;
+  }>();
+
+  if (!data.ok || !data.id_token) {
+    throw new Error(`Slack sign in error: ${data.error ?? response.status}`);
+  }
+
+  const payload = data.id_token.split(".")[1];
+  return JSON.parse(atob(payload.replace(/-/g, "+").replace(/_/g, "/")));
+}
+
+// The workspace SLACK_BOT_TOKEN belongs to, for single-workspace setups
+export async function botTeamId(botToken: string): Promise<string | null> {
+  const data = await callSlack<{ ok: boolean; team_id?: string }>(
+    "auth.test",
+    botToken,
+    {},
+  );
+  return data.team_id ?? null;
+}
+
+// Sessions are signed with a key of their own and say that they're sessions,
+// so OAuth states, which carry a user too and pass through other sites'
+// redirects, can't be used as one
+async function sessionKey(env: Env): Promise<string> {
+  return hmacSha256Hex(env.SLACK_SIGNING_SECRET, "dashboard session");
+}
+
+export async function startSession<E extends { Bindings: Env }>(
+  c: Context<E>,
+  session: DashboardSession,
+): Promise<void> {
+  const token = await createOAuthState(
+    await sessionKey(c.env),
+    { ...session, kind: "session" },
+    SESSION_TTL,
+  );
+  setCookie(c, SESSION_COOKIE, token, {
+    path: "/dashboard",
+    httpOnly: true,
+    secure: true,
+    sameSite: "Lax",
+    maxAge: SESSION_TTL,
+  });
+}
+
+export async function getSession<E extends { Bindings: Env }>(
+  c: Context<E>,
+): Promise<DashboardSession | null> {
+  const claims = await verifyOAuthState(
+    await sessionKey(c.env),
+    getCookie(c, SESSION_COOKIE),
+  );
+  return claims?.kind === "session" && claims.user && claims.team
+    ? { user: claims.user, name: claims.name, team: claims.team }
+    : null;
+}
+
+export function endSession<E extends { Bindings: Env }>(c: Context<E>): void {
+  deleteCookie(c, SESSION_COOKIE, { path: "/dashboard" });
+}
@@ -0,0 +1,114 @@
+import type {
+  SlackApiResponse,
+  SlackChannelInfo,
+  SlackResponsePayload,
+} from "./types";
+
+const SLACK_API_URL = "https://slack.com/api";
+
+// Call a Slack Web API method with a JSON body. HTTP failures are reported
+// the same way as Slack API errors so callers only need to check `ok`.
+export async function callSlack<T extends SlackApiResponse = SlackApiResponse>(
+  method: string,
+  botToken: string,
+  body: object,
+): Promise<T> {
+  const response = await fetch(`${SLACK_API_URL}/${method}`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${botToken}`,
+      "Content-Type": "application/json; charset=utf-8",
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    console.error(`Slack API HTTP error (${method}):`, response.status);
+    return { ok: false, error: `http_${response.status}` } as T;
+  }
+
+  return (await response.json()) as T;
+}
+
+// Answer a slash command or interaction through its response_url, which
+// needs no token and works for 30 minutes
+export async function respond(
+  responseUrl: string,
+  body: SlackResponsePayload,
+): Promise<void> {
+  const response = await fetch(responseUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json; charset=utf-8" },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    console.error("Slack response_url error:", response.status);
+  }
+}
+
+// Call a read-only Slack Web API method that takes its arguments as query
+// parameters rather than a JSON body
+export async function callSlackGet<
+  T extends Pick<SlackApiResponse, "ok" | "error"> = SlackApiResponse,
+>(
+  method: string,
+  botToken: string,
+  params: Record<string, string>,
+): Promise<T> {
+  const response = await fetch(
+    `${SLACK_API_URL}/${method}?${new URLSearchParams(params)}`,
+    {
+      headers: {
+        Authorization: `Bearer ${botToken}`,
+      },
+    },
+  );
+
+  if (!response.ok) {
+    console.error(`Slack API HTTP error (${method}):`, response.status);
+    return { ok: false, error: `http_${response.status}` } as T;
+  }
+
+  return (await response.json()) as T;
+}
+
+// A channel's details from conversations.info, or null if the bot can't see it
+export async function getChannelInfo(
+  botToken: string,
+  channel: string,
+): Promise<SlackChannelInfo | null> {
+  const info = await callSlackGet<{
+    ok: boolean;
+    channel?: SlackChannelInfo;
+  }>("conversations.info", botToken, { channel });
+  return info.channel ?? null;
+}
+
+// A channel's name for display, e.g. "#music", falling back to its id
+// (including when there's no bot token for its workspace)
+export async function channelName(
+  botToken: string | undefined,
+  channel: string,
+): Promise<string> {
+  const info = botToken ? await getChannelInfo(botToken, channel) : null;
+  return info ? `#${info.name}` : channel;
+}
+
+// A user's display name, falling back to their id
+export async function userName(
+  botToken: string,
+  user: string,
+): Promise<string> {
+  const info = await callSlackGet<{
+    ok: boolean;
+    user?: { name: string; real_name?: string };
+  }>("users.info", botToken, { user });
+  return info.user?.real_name || info.user?.name || user;
+}
+
+// Link to a message without an API call. Slack redirects these to the
+// message in the reader's workspace.
+export function messagePermalink(channel: string, ts: string): string {
+  return `https://slack.com/archives/${channel}/p${ts.replace(".", "")}`;
+}
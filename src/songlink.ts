@@ -0,0 +1,570 @@
+import type {
+  CachedSongLink,
+  LinkType,
+  ResolvedTrack,
+  SongLinkCacheStore,
+  SongLinkEntity,
+  SongLinkPlatform,
+  SongLinkResponse,
+  SongLinkResult,
+  SongMetadata,
+} from "./types";
+import { lookupItunesAlbum } from "./itunes";
+
+const SONGLINK_API_URL = "https://api.song.link/v1-alpha.1/links";
+
+// How long resolved and failed lookups stay cached, in seconds
+const SUCCESS_TTL = 30 * 24 * 60 * 60;
+const NOT_FOUND_TTL = 24 * 60 * 60;
+const SERVER_ERROR_TTL = 10 * 60;
+const RATE_LIMITED_TTL = 60;
+
+// Hostnames (after normalization) of each platform's links
+const PLATFORM_HOSTS: Array<[RegExp, SongLinkPlatform]> = [
+  [/^open\.spotify\.com$/, "spotify"],
+  [/^music\.apple\.com$/, "appleMusic"],
+  [/^itunes\.apple\.com$/, "itunes"],
+  [/^music\.youtube\.com$/, "youtubeMusic"],
+  [/^youtube\.com$/, "youtube"],
+  [/^play\.google\.com$/, "google"],
+  [/^pandora\.com$/, "pandora"],
+  [/^deezer\.com$/, "deezer"],
+  [/^(listen\.)?tidal\.com$/, "tidal"],
+  [/^music\.amazon\./, "amazonMusic"],
+  [/^soundcloud\.com$/, "soundcloud"],
+  [/^(web\.)?napster\.com$/, "napster"],
+  [/^music\.yandex\./, "yandex"],
+  [/^spinrilla\.com$/, "spinrilla"],
+  [/^audius\.co$/, "audius"],
+  [/^anghami\.com$/, "anghami"],
+  [/^boomplay\.com$/, "boomplay"],
+  [/^audiomack\.com$/, "audiomack"],
+  [/(^|\.)bandcamp\.com$/, "bandcamp"],
+];
+
+// Platforms a song's id is taken from, in order, so shares of the same song
+// from different platforms get the same id. Apple Music and iTunes, and
+// YouTube and YouTube Music, use the same ids.
+const SONG_ID_PLATFORMS: SongLinkPlatform[] = [
+  "spotify",
+  "appleMusic",
+  "itunes",
+  "deezer",
+  "tidal",
+  "amazonMusic",
+  "youtubeMusic",
+  "youtube",
+  "soundcloud",
+];
+
+// Kinds of link, by the word platforms use for them in paths
+const PATH_LINK_TYPES = new Map<string, LinkType>([
+  ["track", "track"],
+  ["song", "track"],
+  ["video", "track"],
+  ["album", "album"],
+  ["albums", "album"],
+  ["playlist", "playlist"],
+  ["playlists", "playlist"],
+  ["user-playlists", "playlist"],
+  ["sets", "playlist"],
+  ["artist", "artist"],
+  ["artists", "artist"],
+  ["channel", "artist"],
+  ["episode", "episode"],
+  ["episodes", "episode"],
+]);
+
+// soundcloud.com/<artist>/<page> paths that are pages of the artist's rather
+// than tracks
+const SOUNDCLOUD_ARTIST_PAGES = new Set([
+  "tracks",
+  "popular-tracks",
+  "albums",
+  "likes",
+  "reposts",
+  "followers",
+  "following",
+  "comments",
+  "spotlight",
+]);
+
+// Query parameters that only identify who shared a link or where it came from
+const TRACKING_PARAMS = new Set([
+  "si",
+  "feature",
+  "fbclid",
+  "gclid",
+  "igshid",
+  "nd",
+  "context",
+  "ref",
+  "referrer",
+  "app",
+  "ls",
+  "uo",
+  "at",
+  "ct",
+  "pp",
+  "ab_channel",
+]);
+
+function failureTtl(status: number): number {
+  if (status === 429) return RATE_LIMITED_TTL;
+  if (status >= 500) return SERVER_ERROR_TTL;
+  return NOT_FOUND_TTL;
+}
+
+function parseUrl(rawUrl: string): URL | null {
+  try {
+    return new URL(/^https?:\/\//i.test(rawUrl) ? rawUrl : `https://${rawUrl}`);
+  } catch {
+    return null;
+  }
+}
+
+// Reduce a music URL to a canonical form so the same track shared from
+// different apps (tracking params, youtu.be vs youtube.com, locale prefixes)
+// produces the same cache key
+export function normalizeMusicUrl(rawUrl: string): string {
+  const url = parseUrl(rawUrl);
+  if (!url) {
+    return rawUrl;
+  }
+
+  let host = url.hostname.toLowerCase().replace(/^(www|m)\./, "");
+  let path = url.pathname.replace(/\/+$/, "");
+  const params = new URLSearchParams();
+
+  const youtubeId =
+    host === "youtu.be"
+      ? path.slice(1)
+      : (host === "youtube.com" || host === "music.youtube.com") &&
+          /^\/(shorts|embed)\//.test(path)
+        ? path.split("/")[2]
+        : null;
+
+  if (youtubeId) {
+    host = host === "youtu.be" ? "youtube.com" : host;
+    path = "/watch";
+    params.set("v", youtubeId);
+  } else if (
+    (host === "youtube.com" || host === "music.youtube.com") &&
+    path === "/watch"
+  ) {
+    // Only the video id identifies the track; timestamps and playlists don't
+    const videoId = url.searchParams.get("v");
+    if (videoId) {
+      params.set("v", videoId);
+    }
+  } else {
+    for (const [key, value] of url.searchParams) {
+      if (!TRACKING_PARAMS.has(key.toLowerCase()) && !/^utm_/i.test(key)) {
+        params.append(key, value);
+      }
+    }
+  }
+
+  if (host === "open.spotify.com") {
+    path = path.replace(/^\/intl-[a-z-]+/i, "");
+  }
+
+  params.sort();
+  const query = params.toString();
+  return `https://${host}${path}${query ? `?${query}` : ""}`;
+}
+
+// Derive the song.link entityUniqueId a URL will resolve to, for platforms
+// whose URLs carry the platform id. Lets a link from one platform hit the
+// cache entry created by a share of the same song from another platform.
+export function entityIdFromUrl(rawUrl: string): string | null {
+  const url = parseUrl(normalizeMusicUrl(rawUrl));
+  if (!url) {
+    return null;
+  }
+
+  const host = url.hostname;
+  const path = url.pathname;
+  let match: RegExpMatchArray | null;
+
+  if (host === "open.spotify.com") {
+    match = path.match(/^\/(track|album)\/([A-Za-z0-9]+)/);
+    if (match) {
+      return `SPOTIFY_${match[1] === "track" ? "SONG" : "ALBUM"}::${match[2]}`;
+    }
+  }
+
+  if (host === "music.apple.com" || host === "itunes.apple.com") {
+    const trackId = url.searchParams.get("i");
+    if (trackId) {
+      return `ITUNES_SONG::${trackId}`;
+    }
+    match = path.match(/\/(album|song)\/(?:[^/]+\/)?(?:id)?(\d+)$/);
+    if (match) {
+      return `ITUNES_${match[1] === "song" ? "SONG" : "ALBUM"}::${match[2]}`;
+    }
+  }
+
+  if (host === "youtube.com" || host === "music.youtube.com") {
+    const videoId = url.searchParams.get("v");
+    if (path === "/watch" && videoId) {
+      return `YOUTUBE_VIDEO::${videoId}`;
+    }
+  }
+
+  if (host === "deezer.com") {
+    match = path.match(/^(?:\/[a-z]{2})?\/(track|album)\/(\d+)/);
+    if (match) {
+      return `DEEZER_${match[1] === "track" ? "SONG" : "ALBUM"}::${match[2]}`;
+    }
+  }
+
+  if (host === "tidal.com" || host === "listen.tidal.com") {
+    match = path.match(/^(?:\/browse)?\/(track|album)\/(\d+)/);
+    if (match) {
+      return `TIDAL_${match[1] === "track" ? "SONG" : "ALBUM"}::${match[2]}`;
+    }
+  }
+
+  return null;
+}
+
+// What a music link is to, from the shape of its URL, or null when the URL
+// doesn't say
+export function linkTypeFromUrl(rawUrl: string): LinkType | null {
+  const url = parseUrl(normalizeMusicUrl(rawUrl));
+  if (!url) {
+    return null;
+  }
+
+  const host = url.hostname;
+  const segments = url.pathname.split("/").filter(Boolean);
+
+  // Apple Music album links to a song carry the song's id
+  if (
+    (host === "music.apple.com" || host === "itunes.apple.com") &&
+    url.searchParams.has("i")
+  ) {
+    return "track";
+  }
+
+  // As do Amazon Music ones, in trackAsin
+  if (
+    (host === "music.amazon.com" || host === "amazon.com") &&
+    url.searchParams.has("trackAsin")
+  ) {
+    return "track";
+  }
+
+  if (host === "youtube.com" || host === "music.youtube.com") {
+    if (segments[0] === "watch") {
+      return "track";
+    }
+    if (segments[0] === "browse" && segments[1]?.startsWith("MPREb")) {
+      return "album";
+    }
+    if (segments[0]?.startsWith("@")) {
+      return "artist";
+    }
+  }
+
+  // soundcloud.com/<artist>, soundcloud.com/<artist>/<track> and
+  // soundcloud.com/<artist>/sets/<playlist>. The artist's own pages, like
+  // soundcloud.com/<artist>/tracks, are the artist.
+  if (host === "soundcloud.com") {
+    return segments[1] === "sets"
+      ? "playlist"
+      : segments.length === 1 || SOUNDCLOUD_ARTIST_PAGES.has(segments[1])
+        ? "artist"
+        : segments.length === 2
+          ? "track"
+          : null;
+  }
+
+  // An artist's Bandcamp site itself
+  if (host.endsWith(".bandcamp.com") && segments.length === 0) {
+    return "artist";
+  }
+
+  // Most platforms name the kind of link in the path, after any locale
+  // (deezer.com/en/album/…, music.apple.com/us/album/…)
+  for (const segment of segments) {
+    const type = PATH_LINK_TYPES.get(segment);
+    if (type) {
+      return type;
+    }
+  }
+  return null;
+}
+
+// The kind of link a song.link entity is
+export function linkTypeOf(entityType: SongLinkEntity["type"]): LinkType {
+  return entityType === "album" ? "album" : "track";
+}
+
+// How a share is titled in lists: "Artist - Title" for tracks, and the kind
+// of link in front for anything else
+export function shareTitle(
+  linkType: LinkType | undefined,
+  artist: string | undefined,
+  title: string | undefined,
+): string | undefined {
+  if (!title) {
+    return undefined;
+  }
+
+  switch (linkType) {
+    case "album":
+      return artist ? `Album: ${artist} - ${title}` : `Album: ${title}`;
+    case "playlist":
+      return `Playlist: ${title}`;
+    case "artist":
+      return `Artist: ${title}`;
+    case "episode":
+      return artist ? `Podcast: ${artist} - ${title}` : `Podcast: ${title}`;
+    default:
+      return artist ? `${artist} - ${title}` : title;
+  }
+}
+
+// Resolve a music URL through song.link, consulting the cache first.
+// Successful lookups are cached under the normalized URL and under every
+// platform entity id in the response; failures are cached briefly.
+export async function fetchSongLink(
+  url: string,
+  cache: SongLinkCacheStore,
+  {
+    ignoreCachedFailures = false,
+    apiUrl = SONGLINK_API_URL,
+  }: { ignoreCachedFailures?: boolean; apiUrl?: string } = {},
+): Promise<SongLinkResult> {
+  const urlKey = normalizeMusicUrl(url);
+  const entityKey = entityIdFromUrl(url);
+  const keys = entityKey ? [urlKey, entityKey] : [urlKey];
+
+  let cached: CachedSongLink | null = null;
+  try {
+    cached = await cache.lookup(keys);
+  } catch (error) {
+    console.error("Error reading song.link cache:", error);
+  }
+
+  if (cached && ("data" in cached || !ignoreCachedFailures)) {
+    return "data" in cached
+      ? { ok: true, data: cached.data, cached: true }
+      : { ok: false, status: cached.status, cached: true };
+  }
+
+  const response = await fetch(`${apiUrl}?url=${encodeURIComponent(url)}`);
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    try {
+      await cache.storeFailure(
+        urlKey,
+        response.status,
+        failureTtl(response.status),
+      );
+    } catch (error) {
+      console.error("Error writing song.link cache:", error);
+    }
+    return { ok: false, status: response.status, errorText, cached: false };
+  }
+
+  const data: SongLinkResponse = await response.json();
+
+  const aliases = new Set([urlKey, data.entityUniqueId]);
+  for (const link of Object.values(data.linksByPlatform ?? {})) {
+    if (link?.entityUniqueId) {
+      aliases.add(link.entityUniqueId);
+    }
+  }
+
+  try {
+    await cache.storeSuccess([...aliases], data, SUCCESS_TTL);
+  } catch (error) {
+    console.error("Error writing song.link cache:", error);
+  }
+
+  return { ok: true, data, cached: false };
+}
+
+// A song.link response as a resolved track, with the album from songLinkAlbum
+// if it's been looked up
+export function songLinkTrack(
+  data: SongLinkResponse,
+  album?: string,
+): ResolvedTrack {
+  const entity = data.entitiesByUniqueId?.[data.entityUniqueId];
+
+  const links: ResolvedTrack["links"] = {};
+  for (const [platform, link] of Object.entries(data.linksByPlatform ?? {})) {
+    if (link?.url) {
+      links[platform as SongLinkPlatform] = link.url;
+    }
+  }
+
+  return {
+    resolver: "songlink",
+    confidence: 1,
+    url: data.pageUrl,
+    title: entity?.title,
+    artist: entity?.artistName,
+    album,
+    entity_type: entity?.type,
+    link_type: entity && linkTypeOf(entity.type),
+    entity_unique_id: data.entityUniqueId,
+    thumbnail_url: entity?.thumbnailUrl,
+    links,
+    songlink: data,
+  };
+}
+
+// The album a song.link result is on. Albums are their own album; for songs,
+// ask iTunes which album it's on, as song.link only describes the song.
+export async function songLinkAlbum(
+  data: SongLinkResponse,
+  itunesApiUrl?: string,
+): Promise<string | undefined> {
+  const entity = data.entitiesByUniqueId?.[data.entityUniqueId];
+  if (entity?.type === "album") {
+    return entity.title;
+  }
+
+  const itunesId = (
+    data.linksByPlatform?.appleMusic ?? data.linksByPlatform?.itunes
+  )?.entityUniqueId.match(/^ITUNES_SONG::(\d+)$/)?.[1];
+  return itunesId
+    ? ((await lookupItunesAlbum(itunesId, itunesApiUrl)) ?? undefined)
+    : undefined;
+}
+
+// The id shares of the same song are matched on: its entity id on the first
+// of SONG_ID_PLATFORMS it's on, or the shared entity's own id
+export function canonicalSongId(
+  entityIds: Partial<Record<SongLinkPlatform, string>>,
+  fallback: string | undefined,
+): string | undefined {
+  const platform = SONG_ID_PLATFORMS.find((platform) => entityIds[platform]);
+  return platform ? entityIds[platform] : fallback;
+}
+
+// canonicalSongId for a song.link response, which has every platform's id
+export function songLinkSongId(data: SongLinkResponse): string | undefined {
+  const entityIds: Partial<Record<SongLinkPlatform, string>> = {};
+  for (const [platform, link] of Object.entries(data.linksByPlatform ?? {})) {
+    if (link?.entityUniqueId) {
+      entityIds[platform as SongLinkPlatform] = link.entityUniqueId;
+    }
+  }
+  return canonicalSongId(entityIds, data.entityUniqueId);
+}
+
+// The song metadata from a song.link response that we store with a share,
+// with the album from songLinkAlbum
+export function summarizeSongLink(
+  data: SongLinkResponse,
+  album: string | undefined,
+): SongMetadata {
+  const entity = data.entitiesByUniqueId?.[data.entityUniqueId];
+
+  return {
+    songlink_url: data.pageUrl,
+    // YouTube URL, if available, for the video embed
+    youtube_url:
+      data.linksByPlatform?.youtube?.url ||
+      data.linksByPlatform?.youtubeMusic?.url,
+    title: entity
+      ? shareTitle(linkTypeOf(entity.type), entity.artistName, entity.title)
+      : undefined,
+    entity_unique_id: data.entityUniqueId,
+    song_id: songLinkSongId(data),
+    artist: entity?.artistName,
+    track_title: entity?.title,
+    album,
+    entity_type: entity?.type,
+    link_type: entity && linkTypeOf(entity.type),
+    thumbnail_url: entity?.thumbnailUrl,
+    platform_links: songLinkTrack(data).links,
+  };
+}
+
+// The platform a music URL belongs to, using song.link's platform names
+export function platformFromUrl(rawUrl: string): SongLinkPlatform | null {
+  const url = parseUrl(normalizeMusicUrl(rawUrl));
+  if (!url) {
+    return null;
+  }
+
+  const host = url.hostname;
+  if (host === "amazon.com" && url.pathname.startsWith("/music")) {
+    return "amazonMusic";
+  }
+
+  return PLATFORM_HOSTS.find(([pattern]) => pattern.test(host))?.[1] ?? null;
+}
+
+// song.link cache backed by the songlink_responses/songlink_lookups D1 tables
+export function createD1SongLinkCache(db: D1Database): SongLinkCacheStore {
+  return {
+    async lookup(keys) {
+      const placeholders = keys.map(() => "?").join(", ");
+      const { results } = await db
+        .prepare(
+          `SELECT l.lookup_key, l.status, r.response
+           FROM songlink_lookups l
+           LEFT JOIN songlink_responses r
+             ON r.entity_unique_id = l.entity_unique_id
+             AND r.expires_at > datetime('now')
+           WHERE l.lookup_key IN (${placeholders})
+             AND l.expires_at > datetime('now')`,
+        )
+        .bind(...keys)
+        .all<{ lookup_key: string; status: number; response: string | null }>();
+
+      const hit = results.find((row) => row.response);
+      if (hit?.response) {
+        return { data: JSON.parse(hit.response) };
+      }
+
+      // Only a failed lookup of this exact URL counts as a negative hit
+      const failure = results.find(
+        (row) => row.lookup_key === keys[0] && row.status !== 200,
+      );
+      return failure ? { status: failure.status } : null;
+    },
+
+    async storeSuccess(keys, data, ttlSeconds) {
+      const expiresAt = `+${ttlSeconds} seconds`;
+      await db.batch([
+        db
+          .prepare(
+            `INSERT OR REPLACE INTO songlink_responses
+             (entity_unique_id, response, fetched_at, expires_at)
+             VALUES (?, ?, datetime('now'), datetime('now', ?))`,
+          )
+          .bind(data.entityUniqueId, JSON.stringify(data), expiresAt),
+        ...keys.map((key) =>
+          db
+            .prepare(
+              `INSERT OR REPLACE INTO songlink_lookups
+               (lookup_key, entity_unique_id, status, expires_at)
+               VALUES (?, ?, 200, datetime('now', ?))`,
+            )
+            .bind(key, data.entityUniqueId, expiresAt),
+        ),
+      ]);
+    },
+
+    async storeFailure(key, status, ttlSeconds) {
+      await db
+        .prepare(
+          `INSERT OR REPLACE INTO songlink_lookups
+           (lookup_key, entity_unique_id, status, expires_at)
+           VALUES (?, NULL, ?, datetime('now', ?))`,
+        )
+        .bind(key, status, `+${ttlSeconds} seconds`)
+        .run();
+    },
+  };
+}
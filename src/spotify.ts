@@ -0,0 +1,403 @@
+import type {
+  Env,
+  OAuthTokenResponse,
+  SpotifyPage,
+  SpotifyTrack,
+  StoredPlaylist,
+} from "./types";
+import { getBotToken, getChannelBotToken } from "./installations";
+import { getOAuthAccessToken } from "./oauth";
+import {
+  findPlaylist,
+  listSettledPlaylistItems,
+  recordPlaylistItem,
+  ROLLING_PLAYLIST_LOOKBACK,
+  savePlaylist,
+} from "./playlists";
+import { channelName } from "./slack";
+
+const SPOTIFY_AUTH_URL = "https://accounts.spotify.com/authorize";
+const SPOTIFY_TOKEN_URL = "https://accounts.spotify.com/api/token";
+const SPOTIFY_API_URL = "https://api.spotify.com/v1";
+const SPOTIFY_SCOPE = "playlist-read-private playlist-modify-private";
+
+// Spotify accepts at most this many tracks per add request
+const MAX_TRACKS_PER_REQUEST = 100;
+
+// A shared track to add, and the share it came from
+interface PendingTrack {
+  uri: string;
+  shareId: number;
+}
+
+// The track or album in an open.spotify.com link, e.g.
+// https://open.spotify.com/intl-de/album/4aawyAB9vmqN3uQ7FjRGTy
+export function parseSpotifyUrl(
+  url: string,
+): { type: "track" | "album"; id: string } | null {
+  const match = url.match(
+    /open\.spotify\.com\/(?:intl-[\w-]+\/)?(track|album)\/([A-Za-z0-9]{22})/,
+  );
+  return match ? { type: match[1] as "track" | "album", id: match[2] } : null;
+}
+
+export function spotifyAuthUrl(
+  clientId: string,
+  redirectUri: string,
+  state: string,
+): string {
+  const params = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    response_type: "code",
+    scope: SPOTIFY_SCOPE,
+    state,
+  });
+  return `${SPOTIFY_AUTH_URL}?${params}`;
+}
+
+async function requestSpotifyToken(
+  env: Env,
+  params: Record<string, string>,
+): Promise<OAuthTokenResponse> {
+  const response = await fetch(SPOTIFY_TOKEN_URL, {
+    method: "POST",
+    headers: {
+      Authorization: `Basic ${btoa(`${env.SPOTIFY_CLIENT_ID}:${env.SPOTIFY_CLIENT_SECRET}`)}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: new URLSearchParams(params),
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Spotify token error ${response.status}: ${await response.text()}`,
+    );
+  }
+
+  return response.json();
+}
+
+export function exchangeSpotifyCode(
+  env: Env,
+  code: string,
+  redirectUri: string,
+): Promise<OAuthTokenResponse> {
+  return requestSpotifyToken(env, {
+    code,
+    redirect_uri: redirectUri,
+    grant_type: "authorization_code",
+  });
+}
+
+function getSpotifyAccessToken(
+  env: Env,
+  teamId: string,
+): Promise<string | null> {
+  return getOAuthAccessToken(env.DB, teamId, "spotify", (refreshToken) =>
+    requestSpotifyToken(env, {
+      refresh_token: refreshToken,
+      grant_type: "refresh_token",
+    }),
+  );
+}
+
+// Call the Web API with a path, or a full URL such as a page's `next` link
+async function spotifyApi<T>(
+  accessToken: string,
+  path: string,
+  init?: { method: string; body: object },
+): Promise<T> {
+  const url = path.startsWith("https://") ? path : `${SPOTIFY_API_URL}/${path}`;
+  const response = await fetch(url, {
+    method: init?.method ?? "GET",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+    },
+    body: init ? JSON.stringify(init.body) : undefined,
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Spotify API error ${response.status}: ${await response.text()}`,
+    );
+  }
+
+  return response.json();
+}
+
+// Every item of a paged list, following `next` links
+async function listAllPages<T>(
+  accessToken: string,
+  path: string,
+): Promise<T[]> {
+  const items: T[] = [];
+  let next: string | null = path;
+
+  while (next) {
+    const page: SpotifyPage<T> = await spotifyApi<SpotifyPage<T>>(
+      accessToken,
+      next,
+    );
+    items.push(...page.items);
+    next = page.next;
+  }
+
+  return items;
+}
+
+async function listPlaylistTrackUris(
+  accessToken: string,
+  playlistId: string,
+): Promise<Set<string>> {
+  const items = await listAllPages<{ track: SpotifyTrack | null }>(
+    accessToken,
+    `playlists/${playlistId}/tracks?fields=items(track(uri)),next&limit=100`,
+  );
+  return new Set(items.flatMap((item) => (item.track ? [item.track.uri] : [])));
+}
+
+async function listAlbumTrackUris(
+  accessToken: string,
+  albumId: string,
+): Promise<string[]> {
+  const tracks = await listAllPages<SpotifyTrack>(
+    accessToken,
+    `albums/${albumId}/tracks?limit=50`,
+  );
+  return tracks.map((track) => track.uri);
+}
+
+// The channel's playlist, created on Spotify if it doesn't exist yet
+async function ensurePlaylist(
+  env: Env,
+  accessToken: string,
+  teamId: string,
+  channel: string,
+): Promise<StoredPlaylist> {
+  const existing = await findPlaylist(
+    env.DB,
+    "spotify",
+    teamId,
+    channel,
+    "rolling",
+  );
+  if (existing) {
+    return existing;
+  }
+
+  const name = await channelName(
+    await getChannelBotToken(env, channel),
+    channel,
+  );
+  const title = `Shared Songs ${name}`;
+  const me = await spotifyApi<{ id: string }>(accessToken, "me");
+  const created = await spotifyApi<{
+    id: string;
+    external_urls: { spotify: string };
+  }>(accessToken, `users/${encodeURIComponent(me.id)}/playlists`, {
+    method: "POST",
+    body: {
+      name: title,
+      description: `Songs shared in ${name} on Slack, auto-generated by songlink-bot.`,
+      public: false,
+    },
+  });
+
+  return savePlaylist(env.DB, "spotify", teamId, channel, {
+    playlist_id: created.id,
+    playlist_key: "rolling",
+    title,
+    url: created.external_urls.spotify,
+  });
+}
+
+// Tracks for a channel's shares that aren't settled in the playlist yet.
+// Album shares add all their tracks if albumTracks is set, and are skipped
+// otherwise.
+async function pendingTracks(
+  env: Env,
+  accessToken: string,
+  playlist: StoredPlaylist,
+  shares: Array<{ id: number; spotify_url: string }>,
+  albumTracks: boolean,
+): Promise<PendingTrack[]> {
+  const settled = await listSettledPlaylistItems(
+    env.DB,
+    "spotify",
+    playlist.playlist_id,
+  );
+  const pending = new Map<string, PendingTrack>();
+
+  const addPending = (uri: string, shareId: number) => {
+    if (!settled.has(uri) && !pending.has(uri)) {
+      pending.set(uri, { uri, shareId });
+    }
+  };
+
+  for (const share of shares) {
+    const ref = parseSpotifyUrl(share.spotify_url);
+
+    if (ref?.type === "track") {
+      addPending(`spotify:track:${ref.id}`, share.id);
+      continue;
+    }
+
+    const albumUri = `spotify:album:${ref?.id}`;
+    if (ref?.type !== "album" || !albumTracks || settled.has(albumUri)) {
+      continue;
+    }
+
+    // The album is recorded too, so its tracks are only looked up once
+    try {
+      const uris = await listAlbumTrackUris(accessToken, ref.id);
+      uris.forEach((uri) => addPending(uri, share.id));
+      await recordPlaylistItem(
+        env.DB,
+        "spotify",
+        playlist.playlist_id,
+        albumUri,
+        share.id,
+        "added",
+      );
+      settled.add(albumUri);
+    } catch (error) {
+      console.error("Error looking up Spotify album tracks:", ref.id, error);
+      await recordPlaylistItem(
+        env.DB,
+        "spotify",
+        playlist.playlist_id,
+        albumUri,
+        share.id,
+        "failed",
+        String(error),
+      );
+    }
+  }
+
+  return [...pending.values()];
+}
+
+async function addTracksToPlaylist(
+  env: Env,
+  accessToken: string,
+  playlist: StoredPlaylist,
+  tracks: PendingTrack[],
+): Promise<void> {
+  // Also skip tracks added to the playlist by hand
+  const inPlaylist = await listPlaylistTrackUris(
+    accessToken,
+    playlist.playlist_id,
+  );
+  const toAdd: PendingTrack[] = [];
+
+  for (const track of tracks) {
+    if (inPlaylist.has(track.uri)) {
+      await recordPlaylistItem(
+        env.DB,
+        "spotify",
+        playlist.playlist_id,
+        track.uri,
+        track.shareId,
+        "added",
+      );
+    } else {
+      toAdd.push(track);
+    }
+  }
+
+  for (let i = 0; i < toAdd.length; i += MAX_TRACKS_PER_REQUEST) {
+    const batch = toAdd.slice(i, i + MAX_TRACKS_PER_REQUEST);
+    let error: string | undefined;
+
+    try {
+      await spotifyApi(
+        accessToken,
+        `playlists/${playlist.playlist_id}/tracks`,
+        {
+          method: "POST",
+          body: { uris: batch.map((track) => track.uri) },
+        },
+      );
+    } catch (e) {
+      console.error("Error adding tracks to Spotify playlist:", e);
+      error = String(e);
+    }
+
+    for (const track of batch) {
+      await recordPlaylistItem(
+        env.DB,
+        "spotify",
+        playlist.playlist_id,
+        track.uri,
+        track.shareId,
+        error ? "failed" : "added",
+        error,
+      );
+    }
+  }
+}
+
+// Add the Spotify versions of songs shared in each opted-in channel to the
+// channel's Spotify playlist. Failed additions are retried on later runs.
+export async function syncSpotifyPlaylists(env: Env): Promise<void> {
+  if (!env.SPOTIFY_CLIENT_ID || !env.SPOTIFY_CLIENT_SECRET) {
+    return;
+  }
+
+  // Channels whose workspace isn't known yet wait until it is
+  const { results: channels } = await env.DB.prepare(
+    `SELECT channel, team_id, spotify_album_tracks FROM channel_settings
+     WHERE spotify_playlist_enabled = 1 AND team_id IS NOT NULL`,
+  ).all<{ channel: string; team_id: string; spotify_album_tracks: number }>();
+
+  // Each workspace's channels sync with the account it connected
+  const accessTokens = new Map<string, Promise<string | null>>();
+
+  for (const { channel, team_id, spotify_album_tracks } of channels) {
+    try {
+      if (!accessTokens.has(team_id)) {
+        // Workspaces that uninstalled the app don't sync
+        accessTokens.set(
+          team_id,
+          getBotToken(env, team_id).then((botToken) =>
+            botToken ? getSpotifyAccessToken(env, team_id) : null,
+          ),
+        );
+      }
+      const accessToken = await accessTokens.get(team_id);
+      if (!accessToken) {
+        // No account connected, or the app was uninstalled
+        console.log("Spotify playlist sync skipped for workspace:", team_id);
+        continue;
+      }
+
+      const playlist = await ensurePlaylist(env, accessToken, team_id, channel);
+      const { results: shares } = await env.DB.prepare(
+        `SELECT id, json_extract(platform_links, '$.spotify') AS spotify_url
+         FROM shared_songs
+         WHERE channel = ? AND team_id = ? AND deleted_at IS NULL
+           AND json_extract(platform_links, '$.spotify') IS NOT NULL
+           AND shared_at >= datetime(?, ?)
+         ORDER BY shared_at`,
+      )
+        .bind(channel, team_id, playlist.created_at, ROLLING_PLAYLIST_LOOKBACK)
+        .all<{ id: number; spotify_url: string }>();
+
+      const tracks = await pendingTracks(
+        env,
+        accessToken,
+        playlist,
+        shares,
+        spotify_album_tracks === 1,
+      );
+
+      if (tracks.length > 0) {
+        await addTracksToPlaylist(env, accessToken, playlist, tracks);
+      }
+    } catch (error) {
+      console.error("Error syncing Spotify playlist:", error);
+    }
+  }
+}
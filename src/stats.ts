@@ -0,0 +1,235 @@
+import type {
+  ArtistCount,
+  RatedSong,
+  WeeklyShareCount,
+  ShareSummary,
+  SharerCount,
+  SongCount,
+} from "./types";
+import { PUBLIC_CHANNEL_SQL } from "./channels";
+
+export interface StatsFilter {
+  // SQLite datetime modifier, e.g. "-7 days"; all time if omitted
+  since?: string;
+  // Slack workspace
+  team?: string;
+  channel?: string;
+  user?: string;
+  // Only shares from public channels, for lists anyone in the workspace sees
+  publicOnly?: boolean;
+}
+
+// What makes shares the same song: its song id, then for shares stored
+// before song ids or never resolved, their entity or link
+const SONG_KEY_SQL =
+  "COALESCE(song_id, entity_unique_id, songlink_url, original_url)";
+
+// Build the WHERE clause shared by all stats queries. Deleted shares never count.
+function whereClause(filter: StatsFilter): { sql: string; params: string[] } {
+  const conditions = ["deleted_at IS NULL"];
+  const params: string[] = [];
+
+  if (filter.since) {
+    conditions.push("shared_at > datetime('now', ?)");
+    params.push(filter.since);
+  }
+  if (filter.team) {
+    conditions.push("team_id = ?");
+    params.push(filter.team);
+  }
+  if (filter.channel) {
+    conditions.push("channel = ?");
+    params.push(filter.channel);
+  }
+  if (filter.user) {
+    conditions.push("shared_by = ?");
+    params.push(filter.user);
+  }
+  if (filter.publicOnly) {
+    conditions.push(PUBLIC_CHANNEL_SQL);
+  }
+
+  return { sql: conditions.join(" AND "), params };
+}
+
+// Most shared songs, counting each message once and matching the same song
+// across platforms by its song id
+export async function topSongs(
+  db: D1Database,
+  filter: StatsFilter,
+  limit = 10,
+): Promise<SongCount[]> {
+  const where = whereClause(filter);
+  const { results } = await db
+    .prepare(
+      `SELECT MAX(title) AS title, MAX(songlink_url) AS songlink_url,
+              COUNT(DISTINCT channel || ':' || message_ts) AS shares
+       FROM shared_songs
+       WHERE ${where.sql} AND status = 'resolved'
+       GROUP BY ${SONG_KEY_SQL}
+       ORDER BY shares DESC, MAX(shared_at) DESC
+       LIMIT ?`,
+    )
+    .bind(...where.params, limit)
+    .all<SongCount>();
+
+  return results;
+}
+
+// Who shared the most, counting each message once like topSongs
+export async function topSharers(
+  db: D1Database,
+  filter: StatsFilter,
+  limit = 10,
+): Promise<SharerCount[]> {
+  const where = whereClause(filter);
+  const { results } = await db
+    .prepare(
+      `SELECT shared_by, COUNT(DISTINCT channel || ':' || message_ts) AS shares
+       FROM shared_songs
+       WHERE ${where.sql} AND status = 'resolved'
+       GROUP BY shared_by
+       ORDER BY shares DESC
+       LIMIT ?`,
+    )
+    .bind(...where.params, limit)
+    .all<SharerCount>();
+
+  return results;
+}
+
+export async function recentShares(
+  db: D1Database,
+  filter: StatsFilter,
+  limit = 10,
+): Promise<ShareSummary[]> {
+  const where = whereClause(filter);
+  const { results } = await db
+    .prepare(
+      `SELECT id, title, original_url, songlink_url, shared_by, channel, message_ts, shared_at
+       FROM shared_songs
+       WHERE ${where.sql}
+       ORDER BY shared_at DESC
+       LIMIT ?`,
+    )
+    .bind(...where.params, limit)
+    .all<ShareSummary>();
+
+  return results;
+}
+
+// Totals for a set of shares: shares, distinct songs and distinct sharers
+export async function shareTotals(
+  db: D1Database,
+  filter: StatsFilter,
+): Promise<{ shares: number; songs: number; sharers: number }> {
+  const where = whereClause(filter);
+  const row = await db
+    .prepare(
+      `SELECT COUNT(*) AS shares,
+              COUNT(DISTINCT ${SONG_KEY_SQL}) AS songs,
+              COUNT(DISTINCT shared_by) AS sharers
+       FROM shared_songs
+       WHERE ${where.sql}`,
+    )
+    .bind(...where.params)
+    .first<{ shares: number; songs: number; sharers: number }>();
+
+  return row ?? { shares: 0, songs: 0, sharers: 0 };
+}
+
+export async function topArtists(
+  db: D1Database,
+  filter: StatsFilter,
+  limit = 10,
+): Promise<ArtistCount[]> {
+  const where = whereClause(filter);
+  const { results } = await db
+    .prepare(
+      `SELECT artist, COUNT(*) AS shares
+       FROM shared_songs
+       WHERE ${where.sql} AND artist IS NOT NULL
+       GROUP BY artist COLLATE NOCASE
+       ORDER BY shares DESC
+       LIMIT ?`,
+    )
+    .bind(...where.params, limit)
+    .all<ArtistCount>();
+
+  return results;
+}
+
+// Songs with the most reactions on their shares and the bot's replies,
+// matching the same song across platforms like topSongs
+export async function topRatedSongs(
+  db: D1Database,
+  filter: StatsFilter,
+  limit = 10,
+): Promise<RatedSong[]> {
+  const where = whereClause(filter);
+  const { results } = await db
+    .prepare(
+      `WITH reacted AS (
+         SELECT ${SONG_KEY_SQL} AS song,
+                title, songlink_url, shared_at, emoji, count
+         FROM shared_songs JOIN song_reactions ON song_reactions.share_id = shared_songs.id
+         WHERE ${where.sql}
+       ),
+       per_emoji AS (
+         SELECT song, emoji, SUM(count) AS count FROM reacted GROUP BY song, emoji
+       )
+       SELECT MAX(title) AS title, MAX(songlink_url) AS songlink_url,
+              SUM(count) AS reactions,
+              (SELECT json_group_array(json_object('name', emoji, 'count', count))
+               FROM (SELECT emoji, count FROM per_emoji
+                     WHERE per_emoji.song = reacted.song
+                     ORDER BY count DESC LIMIT 5)) AS emoji
+       FROM reacted
+       GROUP BY song
+       ORDER BY reactions DESC, MAX(shared_at) DESC
+       LIMIT ?`,
+    )
+    .bind(...where.params, limit)
+    .all<Omit<RatedSong, "emoji"> & { emoji: string }>();
+
+  return results.map((row) => ({ ...row, emoji: JSON.parse(row.emoji) }));
+}
+
+// Shares per week, oldest first. Weeks without shares are left out.
+export async function sharesPerWeek(
+  db: D1Database,
+  filter: StatsFilter,
+): Promise<WeeklyShareCount[]> {
+  const where = whereClause(filter);
+  const { results } = await db
+    .prepare(
+      `SELECT date(shared_at, '-6 days', 'weekday 1') AS week, COUNT(*) AS shares
+       FROM shared_songs
+       WHERE ${where.sql}
+       GROUP BY week
+       ORDER BY week`,
+    )
+    .bind(...where.params)
+    .all<WeeklyShareCount>();
+
+  return results;
+}
+
+// A workspace's channels with at least one share, optionally only public ones
+export async function listShareChannels(
+  db: D1Database,
+  team: string,
+  publicOnly = false,
+): Promise<string[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT DISTINCT channel FROM shared_songs
+       WHERE team_id = ? AND deleted_at IS NULL
+         ${publicOnly ? `AND ${PUBLIC_CHANNEL_SQL}` : ""}
+       ORDER BY channel`,
+    )
+    .bind(team)
+    .all<{ channel: string }>();
+
+  return results.map((row) => row.channel);
+}
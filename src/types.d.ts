@@ -1,10 +1,35 @@
 export interface Env {
-  SLACK_BOT_TOKEN: string;
+  // Bot token for a single-workspace setup; workspaces that installed the app
+  // through /slack/install use their own token
+  SLACK_BOT_TOKEN?: string;
   SLACK_SIGNING_SECRET: string;
   YOUTUBE_API_KEY?: string;
+  // OAuth client for syncing shares to YouTube playlists
+  YOUTUBE_CLIENT_ID?: string;
+  YOUTUBE_CLIENT_SECRET?: string;
+  // OAuth client for mirroring shares to Spotify playlists
+  SPOTIFY_CLIENT_ID?: string;
+  SPOTIFY_CLIENT_SECRET?: string;
+  // Slack app credentials, for installing the app and Sign in with Slack
+  SLACK_CLIENT_ID?: string;
+  SLACK_CLIENT_SECRET?: string;
+  // Order of the resolvers links are looked up with, comma-separated, e.g.
+  // "songlink,itunes,deezer,musicbrainz,youtube" (the default)
+  RESOLVERS?: string;
+  // Base URLs of the resolvers' APIs, to point them at a local stub server
+  SONGLINK_API_URL?: string;
+  ITUNES_API_URL?: string;
+  DEEZER_API_URL?: string;
+  MUSICBRAINZ_API_URL?: string;
+  YOUTUBE_API_URL?: string;
+  // Base URL of a stub oEmbed server, asked at <url>/<platform> instead of
+  // each platform's own oEmbed endpoint
+  OEMBED_API_URL?: string;
   DB: D1Database;
 }
 
+export type ShareStatus = "resolved" | "pending" | "failed";
+
 export interface SharedSong {
   original_url: string;
   songlink_url?: string;
@@ -13,46 +38,731 @@ export interface SharedSong {
   shared_by: string;
   channel: string;
   message_ts: string;
+  reply_ts?: string;
+  // Slack workspace the share was posted in
+  team_id?: string;
+  entity_unique_id?: string;
+  // The same for a song whichever platform it was shared from; see
+  // canonicalSongId
+  song_id?: string;
+  artist?: string;
+  track_title?: string;
+  album?: string;
+  entity_type?: SongLinkEntity["type"];
+  link_type?: LinkType;
+  source_platform?: SongLinkPlatform;
+  thumbnail_url?: string;
+  platform_links?: Partial<Record<SongLinkPlatform, string>>;
+  status?: ShareStatus;
+}
+
+// What a music link is to. song.link only knows tracks ("song") and albums.
+export type LinkType = "track" | "album" | "playlist" | "artist" | "episode";
+
+// Everything about a share that comes from resolving its link
+export type SongMetadata = Pick<
+  SharedSong,
+  | "songlink_url"
+  | "youtube_url"
+  | "title"
+  | "entity_unique_id"
+  | "song_id"
+  | "artist"
+  | "track_title"
+  | "album"
+  | "entity_type"
+  | "link_type"
+  | "thumbnail_url"
+  | "platform_links"
+>;
+
+// A stored share with its row id and when it was shared, as returned by the API
+export interface SharedSongRecord extends SharedSong {
+  id: number;
+  shared_at: string;
+}
+
+// A conversation as conversations.info describes it
+export interface SlackChannelInfo {
+  name: string;
+  is_private?: boolean;
+  is_im?: boolean;
+  is_mpim?: boolean;
+}
+
+// Earlier shares of the same song in a channel
+export interface PreviousShares {
+  count: number;
+  first_shared_by: string;
+  first_message_ts: string;
+  first_permalink?: string;
+}
+
+// A stored share as listed in command responses
+export interface ShareSummary {
+  id: number;
+  title: string | null;
+  original_url: string;
+  songlink_url: string | null;
+  shared_by: string;
+  channel: string;
+  message_ts: string;
+  shared_at: string;
+}
+
+export interface SongCount {
+  title: string | null;
+  songlink_url: string | null;
+  shares: number;
+}
+
+export interface RatedSong {
+  title: string | null;
+  songlink_url: string | null;
+  reactions: number;
+  // Most used reactions first
+  emoji: Array<{ name: string; count: number }>;
+}
+
+export interface WeeklyShareCount {
+  // Monday the week starts on, YYYY-MM-DD
+  week: string;
+  shares: number;
+}
+
+export interface SharerCount {
+  shared_by: string;
+  shares: number;
+}
+
+// Where song replies go: a thread reply, a reply in the channel itself, a
+// reply only the poster can see, or a card attached to the link's unfurl
+export type ReplyMode = "thread" | "channel" | "ephemeral" | "unfurl";
+
+export interface ChannelSettings {
+  // Whether the bot handles links in the channel at all
+  enabled: boolean;
+  reply_mode: ReplyMode;
+  // Platforms shown as buttons, in PLATFORM_LABELS order; null shows them all
+  platforms: SongLinkPlatform[] | null;
+  // Post the YouTube link with replies so Slack embeds the video
+  youtube_embed: boolean;
+  // Record shares for stats, digests, playlists and feeds
+  store_shares: boolean;
+  // Search YouTube for the song when song.link can't resolve a link
+  youtube_fallback: boolean;
+  show_duplicates: boolean;
+  // Weekly digest, posted on digest_day (0 = Sunday) at digest_hour UTC
+  digest_enabled: boolean;
+  digest_day: number;
+  digest_hour: number;
+  // Sync shared YouTube videos to a rolling playlist, and optionally weekly ones
+  youtube_playlist_enabled: boolean;
+  youtube_weekly_playlists: boolean;
+  // Mirror shared Spotify tracks to a playlist; albums add all their tracks
+  // if spotify_album_tracks is set, otherwise they're skipped
+  spotify_playlist_enabled: boolean;
+  spotify_album_tracks: boolean;
+  // Feeds of the channel's shares under /feeds/; private channels' feeds
+  // need ?token=feed_token
+  feed_enabled: boolean;
+  feed_token: string | null;
+  // The workspace the channel is in; its playlists sync with that
+  // workspace's connected accounts
+  team_id: string | null;
+}
+
+export type OAuthProvider = "youtube" | "spotify";
+
+export interface OAuthTokenResponse {
+  access_token: string;
+  expires_in: number;
+  refresh_token?: string;
+  scope?: string;
+  token_type?: string;
+}
+
+export type PlaylistItemStatus = "added" | "failed";
+
+export interface StoredPlaylist {
+  playlist_id: string;
+  // "rolling", or "week:YYYY-MM-DD" for the week starting that Monday
+  playlist_key: string;
+  title: string;
+  url: string;
+  created_at: string;
+}
+
+export interface ArtistCount {
+  artist: string;
+  shares: number;
+}
+
+export interface StoredShare {
+  id: number;
+  original_url: string;
+  reply_ts: string | null;
+}
+
+export interface SongLinkRetry {
+  share_id: number;
+  reply_ts: string | null;
+  attempts: number;
+  original_url: string;
+  channel: string;
+  message_ts: string;
+  shared_by: string;
+  team_id: string | null;
 }
 
 export interface SlackEvent {
   type: string;
   challenge?: string;
-  event?: SlackMessageEvent;
+  event_id?: string;
+  team_id?: string;
+  event_time?: number;
+  event?:
+    | SlackMessageEvent
+    | SlackReactionEvent
+    | SlackAppEvent
+    | SlackLinkSharedEvent;
+}
+
+// Slash command payload (sent form-encoded)
+export interface SlackCommand {
+  command: string;
+  text: string;
+  user_id: string;
+  channel_id: string;
+  team_id: string;
+  response_url: string;
+  trigger_id: string;
 }
 
-export interface SlackMessageEvent {
+export interface SlackCommandResponse {
+  response_type: "ephemeral" | "in_channel";
+  text: string;
+  blocks?: SlackBlock[];
+}
+
+export interface SlackMessage {
   type: string;
-  channel: string;
   user: string;
   text?: string;
   ts: string;
   bot_id?: string;
+  blocks?: SlackMessageBlock[];
+  attachments?: SlackAttachment[];
+}
+
+// A block or element of a received message, only as far as links go:
+// rich_text "link" elements carry a url, and section-style blocks mrkdwn text
+export interface SlackMessageBlock {
+  type: string;
+  url?: string;
+  text?: string | { type: string; text: string };
+  elements?: SlackMessageBlock[];
+  fields?: Array<{ type: string; text: string }>;
+}
+
+// Link previews and forwarded or shared messages
+export interface SlackAttachment {
+  text?: string;
+  pretext?: string;
+  title_link?: string;
+  from_url?: string;
+  original_url?: string;
+  is_share?: boolean;
+  blocks?: SlackMessageBlock[];
+  // A forwarded message's own content
+  message_blocks?: Array<{ message?: { blocks?: SlackMessageBlock[] } }>;
+}
+
+export interface SlackMessageEvent extends SlackMessage {
+  channel: string;
+  // "channel" (public), "group" (private), "im" or "mpim"
+  channel_type?: string;
+  subtype?: string;
+  // message_changed: the message after and before the edit
+  message?: SlackMessage;
+  previous_message?: SlackMessage;
+  // message_deleted: the ts of the deleted message
+  deleted_ts?: string;
+}
+
+export interface SlackReactionEvent {
+  type: "reaction_added" | "reaction_removed";
+  user: string;
+  // Emoji name without colons, e.g. "fire" or "+1::skin-tone-2"
+  reaction: string;
+  item: {
+    type: string;
+    channel: string;
+    ts: string;
+  };
+  event_ts: string;
+}
+
+// Links to the app's unfurl domains were posted. For links still being typed,
+// source is "composer" and there's no message yet.
+export interface SlackLinkSharedEvent {
+  type: "link_shared";
+  channel: string;
+  user: string;
+  message_ts: string;
+  thread_ts?: string;
+  links: Array<{ domain: string; url: string }>;
+  source?: "conversations_history" | "composer";
+  unfurl_id?: string;
+}
+
+// The app was removed from a workspace, or some of its tokens were revoked
+export interface SlackAppEvent {
+  type: "app_uninstalled" | "tokens_revoked";
+  tokens?: {
+    oauth?: string[];
+    // User ids of the bots whose tokens were revoked
+    bot?: string[];
+  };
+}
+
+export type SongLinkPlatform =
+  | "spotify"
+  | "itunes"
+  | "appleMusic"
+  | "youtube"
+  | "youtubeMusic"
+  | "google"
+  | "googleStore"
+  | "pandora"
+  | "deezer"
+  | "tidal"
+  | "amazonStore"
+  | "amazonMusic"
+  | "soundcloud"
+  | "napster"
+  | "yandex"
+  | "spinrilla"
+  | "audius"
+  | "audiomack"
+  | "anghami"
+  | "boomplay"
+  | "bandcamp";
+
+export interface SongLinkPlatformLink {
+  url: string;
+  entityUniqueId: string;
+  nativeAppUriMobile?: string;
+  nativeAppUriDesktop?: string;
+}
+
+export interface SongLinkEntity {
+  id: string;
+  type: "song" | "album";
+  title?: string;
+  artistName?: string;
+  thumbnailUrl?: string;
+  thumbnailWidth?: number;
+  thumbnailHeight?: number;
+  apiProvider: string;
+  platforms: SongLinkPlatform[];
 }
 
 export interface SongLinkResponse {
   pageUrl: string;
   entityUniqueId: string;
   userCountry: string;
-  linksByPlatform: {
-    youtube?: {
-      url: string;
-      entityUniqueId: string;
+  linksByPlatform: Partial<Record<SongLinkPlatform, SongLinkPlatformLink>>;
+  entitiesByUniqueId: Record<string, SongLinkEntity>;
+}
+
+// Artist, title and album read from a music link's page
+export interface LinkMetadata {
+  title: string;
+  artist?: string;
+  album?: string;
+  // Seconds
+  duration?: number;
+}
+
+export interface OEmbedResponse {
+  title?: string;
+  author_name?: string;
+  provider_name?: string;
+  thumbnail_url?: string;
+}
+
+// A track listed on a playlist or album page
+export interface ListedTrack {
+  title: string;
+  artist?: string;
+  url?: string;
+}
+
+// What a playlist, album, artist or podcast episode page says it is. creator
+// is whoever made it: the playlist's owner, the album's artist or the
+// episode's show.
+export interface PageDetails {
+  title: string;
+  creator?: string;
+  thumbnail_url?: string;
+  track_count?: number;
+  tracks?: ListedTrack[];
+}
+
+export type ResolverName =
+  | "songlink"
+  | "itunes"
+  | "deezer"
+  | "musicbrainz"
+  | "youtube"
+  | "page";
+
+// A song as any resolver found it
+export interface ResolvedTrack {
+  resolver: ResolverName;
+  // 0–1: how sure the resolver is that this is the linked song
+  confidence: number;
+  // Page for the song: the song.link page, or the provider's own page
+  url?: string;
+  title?: string;
+  artist?: string;
+  album?: string;
+  entity_type?: SongLinkEntity["type"];
+  link_type?: LinkType;
+  // Albums and playlists: how many tracks they have, and the first few
+  track_count?: number;
+  tracks?: ListedTrack[];
+  // In song.link's format (e.g. "ITUNES_SONG::123") where there is one, so
+  // shares resolved by different resolvers are still recognised as reposts
+  entity_unique_id?: string;
+  thumbnail_url?: string;
+  links: Partial<Record<SongLinkPlatform, string>>;
+  // The full response, when song.link resolved the link
+  songlink?: SongLinkResponse;
+}
+
+// status is the HTTP status of a failed lookup, or 404 when a provider
+// doesn't know the song
+export type ResolverResult =
+  | { ok: true; track: ResolvedTrack }
+  | { ok: false; status: number };
+
+export interface ResolverContext {
+  // What the link is to, from its URL
+  linkType: LinkType;
+  // What the link's page says the song is, read on first use
+  metadata(): Promise<LinkMetadata | null>;
+  // Artist and title to search for, from the metadata
+  searchQuery(): Promise<string | null>;
+}
+
+export interface ResolverOptions {
+  // Look links up again even if song.link failed on them recently, for retries
+  ignoreCachedFailures?: boolean;
+}
+
+export interface Resolver {
+  name: ResolverName;
+  // The kinds of link it can resolve
+  linkTypes: LinkType[];
+  resolve(url: string, context: ResolverContext): Promise<ResolverResult>;
+}
+
+export type CachedSongLink = { data: SongLinkResponse } | { status: number };
+
+export type SongLinkResult =
+  | { ok: true; data: SongLinkResponse; cached: boolean }
+  | { ok: false; status: number; errorText?: string; cached: boolean };
+
+export interface SongLinkCacheStore {
+  lookup(keys: string[]): Promise<CachedSongLink | null>;
+  storeSuccess(
+    keys: string[],
+    data: SongLinkResponse,
+    ttlSeconds: number,
+  ): Promise<void>;
+  storeFailure(key: string, status: number, ttlSeconds: number): Promise<void>;
+}
+
+export interface SlackTextObject {
+  type: "plain_text" | "mrkdwn";
+  text: string;
+  emoji?: boolean;
+}
+
+export interface SlackImageElement {
+  type: "image";
+  image_url: string;
+  alt_text: string;
+}
+
+export interface SlackButtonElement {
+  type: "button";
+  text: SlackTextObject;
+  action_id: string;
+  url?: string;
+  value?: string;
+  style?: "primary" | "danger";
+}
+
+export type SlackBlock =
+  | {
+      type: "section";
+      text?: SlackTextObject;
+      fields?: SlackTextObject[];
+      accessory?: SlackImageElement | SlackButtonElement;
+    }
+  | {
+      type: "context";
+      elements: Array<SlackTextObject | SlackImageElement>;
+    }
+  | {
+      type: "actions";
+      elements: SlackButtonElement[];
+    }
+  | {
+      type: "header";
+      text: SlackTextObject;
+    }
+  | {
+      type: "divider";
+    }
+  | {
+      type: "input";
+      block_id: string;
+      label: SlackTextObject;
+      element: SlackInputElement;
+      optional?: boolean;
+      hint?: SlackTextObject;
     };
-    youtubeMusic?: {
-      url: string;
-      entityUniqueId: string;
+
+export interface SlackOption {
+  text: SlackTextObject;
+  value: string;
+}
+
+export type SlackInputElement =
+  | {
+      type: "checkboxes" | "multi_static_select";
+      action_id: string;
+      options: SlackOption[];
+      initial_options?: SlackOption[];
+      placeholder?: SlackTextObject;
+    }
+  | {
+      type: "radio_buttons";
+      action_id: string;
+      options: SlackOption[];
+      initial_option?: SlackOption;
+    };
+
+export interface SlackModalView {
+  type: "modal";
+  callback_id: string;
+  // Passed back untouched on submission
+  private_metadata?: string;
+  title: SlackTextObject;
+  submit?: SlackTextObject;
+  close?: SlackTextObject;
+  blocks: SlackBlock[];
+}
+
+// What an input element holds when its view is submitted
+export interface SlackViewStateValue {
+  type: string;
+  selected_option?: SlackOption | null;
+  selected_options?: SlackOption[];
+}
+
+// Interactivity payloads, sent form-encoded as `payload`
+export type SlackInteraction =
+  | SlackViewSubmission
+  | SlackMessageAction
+  | SlackBlockActions;
+
+// A modal was submitted
+export interface SlackViewSubmission {
+  type: "view_submission";
+  user: { id: string };
+  team: { id: string } | null;
+  view: {
+    callback_id: string;
+    private_metadata: string;
+    state: {
+      values: Record<string, Record<string, SlackViewStateValue>>;
     };
-    [key: string]: any;
-  };
-  entitiesByUniqueId: {
-    [key: string]: any;
   };
 }
 
+export interface SlackMessagePayload {
+  channel: string;
+  text: string;
+  blocks?: SlackBlock[];
+  thread_ts?: string;
+  ts?: string;
+  unfurl_links?: boolean;
+  unfurl_media?: boolean;
+}
+
+// Claims in the ID token from Sign in with Slack (OpenID Connect)
+export interface SlackIdToken {
+  sub: string;
+  name?: string;
+  picture?: string;
+  nonce?: string;
+  "https://slack.com/team_id": string;
+}
+
+// oauth.v2.access, when a workspace installs the app
+export interface SlackOAuthV2Response {
+  ok: boolean;
+  error?: string;
+  access_token?: string;
+  token_type?: string;
+  scope?: string;
+  bot_user_id?: string;
+  team?: { id: string; name?: string };
+  authed_user?: { id: string };
+}
+
+// A message shortcut was used on a message
+export interface SlackMessageAction {
+  type: "message_action";
+  callback_id: string;
+  trigger_id: string;
+  response_url: string;
+  user: { id: string };
+  team: { id: string } | null;
+  channel: { id: string };
+  message: SlackMessage & { thread_ts?: string };
+}
+
+// A button was clicked
+export interface SlackBlockActions {
+  type: "block_actions";
+  user: { id: string };
+  team: { id: string } | null;
+  channel?: { id: string };
+  response_url?: string;
+  actions: Array<{ action_id: string; value?: string }>;
+}
+
+// Body for a command or interaction's response_url
+export interface SlackResponsePayload {
+  response_type?: "ephemeral" | "in_channel";
+  replace_original?: boolean;
+  delete_original?: boolean;
+  text?: string;
+  blocks?: SlackBlock[];
+}
+
 export interface SlackApiResponse {
   ok: boolean;
   error?: string;
+  ts?: string;
+  channel?: string;
+  permalink?: string;
+}
+
+export interface ItunesLookupResponse {
+  resultCount: number;
+  results: Array<{
+    wrapperType: string;
+    kind?: string;
+    trackId?: number;
+    trackName?: string;
+    artistName?: string;
+    collectionName?: string;
+    trackViewUrl?: string;
+    artworkUrl100?: string;
+    trackCount?: number;
+  }>;
+}
+
+export interface DeezerTrack {
+  id: number;
+  title: string;
+  link: string;
+  artist?: { name: string };
+  album?: { title: string; cover_medium?: string };
+}
+
+// Deezer reports errors with a 200 and an error object
+export type DeezerTrackResponse = DeezerTrack & {
+  error?: { type: string; message: string; code: number };
+};
+
+export interface DeezerSearchResponse {
+  data?: DeezerTrack[];
+  error?: { type: string; message: string; code: number };
+}
+
+// A Deezer playlist or album, with its first page of tracks
+export interface DeezerCollectionResponse {
+  title: string;
+  nb_tracks?: number;
+  link: string;
+  picture_medium?: string;
+  cover_medium?: string;
+  creator?: { name: string };
+  artist?: { name: string };
+  tracks?: { data: DeezerTrack[] };
+  error?: { type: string; message: string; code: number };
+}
+
+export interface MusicBrainzRecordingSearchResponse {
+  recordings?: Array<{
+    id: string;
+    // 0–100, how well the recording matches the query
+    score: number;
+    title: string;
+    "artist-credit"?: Array<{ name: string; joinphrase?: string }>;
+    releases?: Array<{ id: string; title: string }>;
+  }>;
+}
+
+export interface YouTubePlaylistItemsResponse {
+  items?: Array<{
+    contentDetails: {
+      videoId: string;
+    };
+  }>;
+  nextPageToken?: string;
+}
+
+// A page of a Spotify list, e.g. a playlist's or album's tracks
+export interface SpotifyPage<T> {
+  items: T[];
+  next: string | null;
+}
+
+export interface SpotifyTrack {
+  uri: string;
+}
+
+// What to search YouTube for: free text, and the song's details if we know
+// them
+export type YouTubeSearch = { query: string } & Partial<LinkMetadata>;
+
+export interface YouTubeMatch {
+  url: string;
+  title: string;
+  channel: string;
+  // Seconds, when it was fetched
+  duration?: number;
+  // 0–1: how likely the video is the song that was searched for
+  confidence: number;
+}
+
+export interface YouTubeVideosResponse {
+  items?: Array<{
+    id: string;
+    contentDetails: {
+      // ISO 8601, e.g. "PT4M31S"
+      duration: string;
+    };
+  }>;
 }
 
 export interface YouTubeSearchResponse {
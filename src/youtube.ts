@@ -0,0 +1,580 @@
+import type {
+  Env,
+  OAuthTokenResponse,
+  StoredPlaylist,
+  YouTubeMatch,
+  YouTubePlaylistItemsResponse,
+  YouTubeSearch,
+  YouTubeSearchResponse,
+  YouTubeVideosResponse,
+} from "./types";
+import { getBotToken, getChannelBotToken } from "./installations";
+import {
+  decodeHtmlEntities,
+  normalizedWords,
+  parseIsoDuration,
+} from "./metadata";
+import { getOAuthAccessToken } from "./oauth";
+import {
+  findPlaylist,
+  listSettledPlaylistItems,
+  recordPlaylistItem,
+  ROLLING_PLAYLIST_LOOKBACK,
+  savePlaylist,
+  weeklyPlaylistKey,
+} from "./playlists";
+import { channelName } from "./slack";
+import { normalizeMusicUrl } from "./songlink";
+
+const GOOGLE_AUTH_URL = "https://accounts.google.com/o/oauth2/v2/auth";
+const GOOGLE_TOKEN_URL = "https://oauth2.googleapis.com/token";
+const YOUTUBE_API_URL = "https://www.googleapis.com/youtube/v3";
+const YOUTUBE_SCOPE = "https://www.googleapis.com/auth/youtube";
+
+// Each playlist insert costs 50 of the default 10,000 daily quota units
+const MAX_INSERTS_PER_SYNC = 20;
+
+// Search results to choose the best match from
+const SEARCH_CANDIDATES = 8;
+
+// Words in video titles and channel names that say nothing about the song
+const FILLER_WORDS = new Set([
+  "official",
+  "video",
+  "audio",
+  "music",
+  "lyric",
+  "hd",
+  "hq",
+  "4k",
+  "mv",
+  "vevo",
+  "topic",
+  "remastered",
+]);
+
+// Versions that usually aren't the one that was shared
+const UNWANTED_VERSIONS = [
+  "cover",
+  "live",
+  "reaction",
+  "lyrics",
+  "karaoke",
+  "instrumental",
+];
+
+// The video id of a YouTube or YouTube Music link, wherever v is in the query
+// (watch?feature=share&v=…) or in youtu.be, /shorts/ and /embed/ form
+export function extractVideoId(youtubeUrl: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(normalizeMusicUrl(youtubeUrl));
+  } catch {
+    return null;
+  }
+
+  const videoId =
+    url.hostname === "youtube.com" || url.hostname === "music.youtube.com"
+      ? url.searchParams.get("v")
+      : null;
+  return videoId && /^[a-zA-Z0-9_-]{11}$/.test(videoId) ? videoId : null;
+}
+
+// Score each candidate video against the song we're looking for. Scores can
+// go past 0–1 so that bonuses still rank candidates that match fully.
+function scoreVideo(
+  search: YouTubeSearch,
+  video: { title: string; channel: string; duration?: number },
+): number {
+  const expected = normalizedWords(
+    search.title ? `${search.artist ?? ""} ${search.title}` : search.query,
+  ).filter((word) => !FILLER_WORDS.has(word));
+  const queryWords = new Set(normalizedWords(search.query));
+  const titleWords = normalizedWords(video.title);
+  const candidate = [...titleWords, ...normalizedWords(video.channel)].filter(
+    (word) => !FILLER_WORDS.has(word),
+  );
+
+  if (expected.length === 0 || candidate.length === 0) {
+    return 0;
+  }
+
+  // How much of the song the video names, and how little else it does
+  const candidateSet = new Set(candidate);
+  const common = expected.filter((word) => candidateSet.has(word)).length;
+  const coverage = common / expected.length;
+  const dice = (2 * common) / (expected.length + candidate.length);
+  let score = 0.6 * coverage + 0.4 * dice;
+
+  // Auto-generated "Artist - Topic" channels carry the studio recording, and
+  // the artist's own or VEVO channel the official video. Only for videos that
+  // are about the song at all.
+  const channel = video.channel.toLowerCase();
+  const artist = search.artist?.toLowerCase();
+  const official =
+    channel.includes("vevo") ||
+    channel.includes("official") ||
+    (!!artist && channel.replace(/\s+/g, "") === artist.replace(/\s+/g, ""));
+  if (common > 0) {
+    score += channel.endsWith(" - topic") ? 0.2 : official ? 0.1 : 0;
+  }
+
+  // Covers, live versions and the like, unless that's what was asked for
+  for (const word of UNWANTED_VERSIONS) {
+    if (titleWords.includes(word) && !queryWords.has(word)) {
+      score -= 0.3;
+    }
+  }
+
+  if (search.duration && video.duration) {
+    const difference = Math.abs(search.duration - video.duration);
+    score += difference <= 3 ? 0.15 : difference <= 10 ? 0.05 : -0.2;
+  }
+
+  return score;
+}
+
+// Fetch video lengths in seconds with videos.list (1 quota unit for all of
+// them, against 100 for the search)
+async function fetchDurations(
+  videoIds: string[],
+  apiKey: string,
+  apiUrl: string,
+): Promise<Map<string, number>> {
+  const durations = new Map<string, number>();
+  const response = await fetch(
+    `${apiUrl}/videos?part=contentDetails&id=${videoIds.join(",")}&key=${apiKey}`,
+  );
+
+  if (!response.ok) {
+    console.error("YouTube API error:", response.status);
+    return durations;
+  }
+
+  const data: YouTubeVideosResponse = await response.json();
+  for (const item of data.items ?? []) {
+    const duration = parseIsoDuration(item.contentDetails.duration);
+    if (duration) {
+      durations.set(item.id, duration);
+    }
+  }
+  return durations;
+}
+
+// Search YouTube using Data API v3 and pick the video most likely to be the
+// song: similar artist and title, from a Topic or official channel, not a
+// cover or live version, and as long as the original when we know how long
+// that is
+export async function searchYouTube(
+  search: YouTubeSearch,
+  apiKey: string,
+  apiUrl = YOUTUBE_API_URL,
+): Promise<YouTubeMatch | null> {
+  try {
+    const searchUrl = `${apiUrl}/search?part=snippet&q=${encodeURIComponent(search.query)}&type=video&videoCategoryId=10&maxResults=${SEARCH_CANDIDATES}&key=${apiKey}`;
+
+    const response = await fetch(searchUrl);
+
+    if (!response.ok) {
+      console.error("YouTube API error:", response.status);
+      return null;
+    }
+
+    const data: YouTubeSearchResponse = await response.json();
+    const items = data.items ?? [];
+    if (items.length === 0) {
+      return null;
+    }
+
+    // Durations only matter when there's one to compare with
+    const durations = search.duration
+      ? await fetchDurations(
+          items.map((item) => item.id.videoId),
+          apiKey,
+          apiUrl,
+        )
+      : new Map<string, number>();
+
+    const candidates = items.map((item) => {
+      const video = {
+        title: decodeHtmlEntities(item.snippet.title),
+        channel: decodeHtmlEntities(item.snippet.channelTitle),
+        duration: durations.get(item.id.videoId),
+      };
+      return {
+        videoId: item.id.videoId,
+        video,
+        score: scoreVideo(search, video),
+      };
+    });
+
+    // Ties go to YouTube's own ranking
+    const best = candidates.reduce((best, candidate) =>
+      candidate.score > best.score ? candidate : best,
+    );
+
+    return {
+      url: `https://www.youtube.com/watch?v=${best.videoId}`,
+      ...best.video,
+      confidence: Math.min(1, Math.max(0, best.score)),
+    };
+  } catch (error) {
+    console.error("Error searching YouTube:", error);
+    return null;
+  }
+}
+
+export function youtubeAuthUrl(
+  clientId: string,
+  redirectUri: string,
+  state: string,
+): string {
+  const params = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    response_type: "code",
+    scope: YOUTUBE_SCOPE,
+    // Offline access with forced consent so Google always returns a refresh token
+    access_type: "offline",
+    prompt: "consent",
+    state,
+  });
+  return `${GOOGLE_AUTH_URL}?${params}`;
+}
+
+async function requestGoogleToken(
+  params: Record<string, string>,
+): Promise<OAuthTokenResponse> {
+  const response = await fetch(GOOGLE_TOKEN_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams(params),
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Google token error ${response.status}: ${await response.text()}`,
+    );
+  }
+
+  return response.json();
+}
+
+export function exchangeYouTubeCode(
+  env: Env,
+  code: string,
+  redirectUri: string,
+): Promise<OAuthTokenResponse> {
+  return requestGoogleToken({
+    code,
+    client_id: env.YOUTUBE_CLIENT_ID ?? "",
+    client_secret: env.YOUTUBE_CLIENT_SECRET ?? "",
+    redirect_uri: redirectUri,
+    grant_type: "authorization_code",
+  });
+}
+
+function getYouTubeAccessToken(
+  env: Env,
+  teamId: string,
+): Promise<string | null> {
+  return getOAuthAccessToken(env.DB, teamId, "youtube", (refreshToken) =>
+    requestGoogleToken({
+      refresh_token: refreshToken,
+      client_id: env.YOUTUBE_CLIENT_ID ?? "",
+      client_secret: env.YOUTUBE_CLIENT_SECRET ?? "",
+      grant_type: "refresh_token",
+    }),
+  );
+}
+
+async function youtubeApi<T>(
+  accessToken: string,
+  path: string,
+  init?: { method: string; body: object },
+): Promise<T> {
+  const response = await fetch(`${YOUTUBE_API_URL}/${path}`, {
+    method: init?.method ?? "GET",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+    },
+    body: init ? JSON.stringify(init.body) : undefined,
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `YouTube API error ${response.status}: ${await response.text()}`,
+    );
+  }
+
+  return response.json();
+}
+
+async function listPlaylistVideoIds(
+  accessToken: string,
+  playlistId: string,
+): Promise<Set<string>> {
+  const videoIds = new Set<string>();
+  let pageToken: string | undefined;
+
+  do {
+    const params = new URLSearchParams({
+      part: "contentDetails",
+      playlistId,
+      maxResults: "50",
+    });
+    if (pageToken) {
+      params.set("pageToken", pageToken);
+    }
+
+    const data = await youtubeApi<YouTubePlaylistItemsResponse>(
+      accessToken,
+      `playlistItems?${params}`,
+    );
+    for (const item of data.items ?? []) {
+      videoIds.add(item.contentDetails.videoId);
+    }
+    pageToken = data.nextPageToken;
+  } while (pageToken);
+
+  return videoIds;
+}
+
+// The channel's playlist for a key, created on YouTube if it doesn't exist yet
+async function ensurePlaylist(
+  env: Env,
+  accessToken: string,
+  teamId: string,
+  channel: string,
+  playlistKey: string,
+): Promise<StoredPlaylist> {
+  const existing = await findPlaylist(
+    env.DB,
+    "youtube",
+    teamId,
+    channel,
+    playlistKey,
+  );
+  if (existing) {
+    return existing;
+  }
+
+  const name = await channelName(
+    await getChannelBotToken(env, channel),
+    channel,
+  );
+  const title = playlistKey.startsWith("week:")
+    ? `Shared Songs ${name} - Week of ${playlistKey.slice(5)}`
+    : `Shared Songs ${name}`;
+
+  const created = await youtubeApi<{ id: string }>(
+    accessToken,
+    "playlists?part=snippet,status",
+    {
+      method: "POST",
+      body: {
+        snippet: {
+          title,
+          description: `Songs shared in ${name} on Slack, auto-generated by songlink-bot.`,
+        },
+        status: { privacyStatus: "unlisted" },
+      },
+    },
+  );
+
+  return savePlaylist(env.DB, "youtube", teamId, channel, {
+    playlist_id: created.id,
+    playlist_key: playlistKey,
+    title,
+    url: `https://www.youtube.com/playlist?list=${created.id}`,
+  });
+}
+
+// Add shares to a playlist, skipping videos that are already in it. Returns
+// how many insert requests were made.
+async function addSharesToPlaylist(
+  env: Env,
+  accessToken: string,
+  playlist: StoredPlaylist,
+  shares: Array<{ id: number; youtube_url: string }>,
+  budget: number,
+): Promise<number> {
+  const settled = await listSettledPlaylistItems(
+    env.DB,
+    "youtube",
+    playlist.playlist_id,
+  );
+  const pending = shares.filter((share) => {
+    const videoId = extractVideoId(share.youtube_url);
+    return videoId && !settled.has(videoId);
+  });
+
+  if (pending.length === 0) {
+    return 0;
+  }
+
+  // Also skip videos added to the playlist by hand
+  const inPlaylist = await listPlaylistVideoIds(
+    accessToken,
+    playlist.playlist_id,
+  );
+  let inserts = 0;
+
+  for (const share of pending) {
+    const videoId = extractVideoId(share.youtube_url)!;
+
+    if (inPlaylist.has(videoId)) {
+      await recordPlaylistItem(
+        env.DB,
+        "youtube",
+        playlist.playlist_id,
+        videoId,
+        share.id,
+        "added",
+      );
+      continue;
+    }
+
+    if (inserts >= budget) {
+      break;
+    }
+
+    inserts++;
+    try {
+      await youtubeApi(accessToken, "playlistItems?part=snippet", {
+        method: "POST",
+        body: {
+          snippet: {
+            playlistId: playlist.playlist_id,
+            resourceId: { kind: "youtube#video", videoId },
+          },
+        },
+      });
+      inPlaylist.add(videoId);
+      await recordPlaylistItem(
+        env.DB,
+        "youtube",
+        playlist.playlist_id,
+        videoId,
+        share.id,
+        "added",
+      );
+    } catch (error) {
+      console.error("Error adding video to playlist:", videoId, error);
+      await recordPlaylistItem(
+        env.DB,
+        "youtube",
+        playlist.playlist_id,
+        videoId,
+        share.id,
+        "failed",
+        String(error),
+      );
+    }
+  }
+
+  return inserts;
+}
+
+// Append newly shared YouTube videos to each opted-in channel's rolling
+// playlist, and to its weekly playlist if enabled
+export async function syncYouTubePlaylists(
+  env: Env,
+  now = new Date(),
+): Promise<void> {
+  if (!env.YOUTUBE_CLIENT_ID || !env.YOUTUBE_CLIENT_SECRET) {
+    return;
+  }
+
+  // Channels whose workspace isn't known yet wait until it is
+  const { results: channels } = await env.DB.prepare(
+    `SELECT channel, team_id, youtube_weekly_playlists FROM channel_settings
+     WHERE youtube_playlist_enabled = 1 AND team_id IS NOT NULL`,
+  ).all<{
+    channel: string;
+    team_id: string;
+    youtube_weekly_playlists: number;
+  }>();
+
+  // Each workspace's channels sync with the account it connected
+  const accessTokens = new Map<string, Promise<string | null>>();
+  let budget = MAX_INSERTS_PER_SYNC;
+
+  for (const { channel, team_id, youtube_weekly_playlists } of channels) {
+    try {
+      if (!accessTokens.has(team_id)) {
+        // Workspaces that uninstalled the app don't sync
+        accessTokens.set(
+          team_id,
+          getBotToken(env, team_id).then((botToken) =>
+            botToken ? getYouTubeAccessToken(env, team_id) : null,
+          ),
+        );
+      }
+      const accessToken = await accessTokens.get(team_id);
+      if (!accessToken) {
+        // No account connected, or the app was uninstalled
+        console.log("YouTube playlist sync skipped for workspace:", team_id);
+        continue;
+      }
+
+      const rolling = await ensurePlaylist(
+        env,
+        accessToken,
+        team_id,
+        channel,
+        "rolling",
+      );
+      const { results: shares } = await env.DB.prepare(
+        `SELECT id, youtube_url, shared_at FROM shared_songs
+         WHERE channel = ? AND team_id = ? AND youtube_url IS NOT NULL
+           AND deleted_at IS NULL AND shared_at >= datetime(?, ?)
+         ORDER BY shared_at`,
+      )
+        .bind(channel, team_id, rolling.created_at, ROLLING_PLAYLIST_LOOKBACK)
+        .all<{ id: number; youtube_url: string; shared_at: string }>();
+
+      budget -= await addSharesToPlaylist(
+        env,
+        accessToken,
+        rolling,
+        shares,
+        budget,
+      );
+
+      if (youtube_weekly_playlists === 1) {
+        const weekKey = weeklyPlaylistKey(now);
+        const weekShares = shares.filter(
+          (share) =>
+            weeklyPlaylistKey(
+              new Date(`${share.shared_at.replace(" ", "T")}Z`),
+            ) === weekKey,
+        );
+
+        if (weekShares.length > 0) {
+          const weekly = await ensurePlaylist(
+            env,
+            accessToken,
+            team_id,
+            channel,
+            weekKey,
+          );
+          budget -= await addSharesToPlaylist(
+            env,
+            accessToken,
+            weekly,
+            weekShares,
+            budget,
+          );
+        }
+      }
+    } catch (error) {
+      console.error("Error syncing YouTube playlist:", error);
+    }
+
+    if (budget <= 0) {
+      break;
+    }
+  }
+}
@@ -0,0 +1,5 @@
+// Fixtures imported as text, e.g. "./fixtures/page.html?raw"
+declare module "*?raw" {
+  const content: string;
+  export default content;
+}
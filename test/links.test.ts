@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { extractMusicUrls } from "../src/links";
+
+describe("extractMusicUrls", () => {
+  it("leaves sentence punctuation out of bare links", () => {
+    expect(
+      extractMusicUrls({
+        text: "(see https://music.apple.com/us/album/x/1440?i=1441). Also https://open.spotify.com/track/abc!",
+      }),
+    ).toEqual([
+      "https://music.apple.com/us/album/x/1440?i=1441",
+      "https://open.spotify.com/track/abc",
+    ]);
+  });
+
+  it("leaves sentence punctuation out of links without a scheme", () => {
+    expect(
+      extractMusicUrls({ text: "try open.spotify.com/track/abc, it's good" }),
+    ).toEqual(["open.spotify.com/track/abc"]);
+  });
+
+  it("keeps brackets a link opens itself", () => {
+    expect(
+      extractMusicUrls({
+        text: "https://soundcloud.com/artist/song-(remix)",
+      }),
+    ).toEqual(["https://soundcloud.com/artist/song-(remix)"]);
+  });
+
+  it("keeps escaped ampersands in bare links", () => {
+    expect(
+      extractMusicUrls({
+        text: "https://www.youtube.com/watch?v=abc&amp;t=1;",
+      }),
+    ).toEqual(["https://www.youtube.com/watch?v=abc&t=1"]);
+  });
+
+  it("takes links Slack wrapped as they are", () => {
+    expect(
+      extractMusicUrls({
+        text: "<https://open.spotify.com/track/abc.|Song>.",
+      }),
+    ).toEqual(["https://open.spotify.com/track/abc."]);
+  });
+});
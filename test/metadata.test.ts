@@ -0,0 +1,271 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  decodeHtmlEntities,
+  extractLinkMetadata,
+  extractPageDetails,
+} from "../src/metadata";
+import anghamiSong from "./fixtures/anghami-song.html?raw";
+import anghamiSongTagged from "./fixtures/anghami-song-tagged.html?raw";
+import audiomackSong from "./fixtures/audiomack-song.html?raw";
+import audiomackSongOEmbed from "./fixtures/audiomack-song.oembed.json";
+import bandcampAlbum from "./fixtures/bandcamp-album.html?raw";
+import bandcampTrack from "./fixtures/bandcamp-track.html?raw";
+import soundcloudTrack from "./fixtures/soundcloud-track.html?raw";
+import soundcloudTrackOEmbed from "./fixtures/soundcloud-track.oembed.json";
+import spotifyPlaylist from "./fixtures/spotify-playlist.html?raw";
+import spotifyPlaylistOEmbed from "./fixtures/spotify-playlist.oembed.json";
+import spotifyTrack from "./fixtures/spotify-track.html?raw";
+import spotifyTrackOEmbed from "./fixtures/spotify-track.oembed.json";
+import youtubeTopicOEmbed from "./fixtures/youtube-topic.oembed.json";
+import youtubeVideoOEmbed from "./fixtures/youtube-video.oembed.json";
+
+// Stub oEmbed server, as set with OEMBED_API_URL
+const OEMBED_API_URL = "https://oembed.test";
+
+function oembedUrl(platform: string, url: string): string {
+  return `${OEMBED_API_URL}/${platform}?format=json&url=${encodeURIComponent(url)}`;
+}
+
+// Answer fetches from fixtures: HTML pages as text, oEmbed responses as JSON,
+// anything else with a 404. Returns the URLs requested, in order.
+function serveFixtures(fixtures: Record<string, string | object>): string[] {
+  const requested: string[] = [];
+
+  vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+    const url = input instanceof Request ? input.url : String(input);
+    requested.push(url);
+
+    const fixture = fixtures[url];
+    if (fixture === undefined) {
+      return new Response("Not found", { status: 404 });
+    }
+    return typeof fixture === "string"
+      ? new Response(fixture, { headers: { "Content-Type": "text/html" } })
+      : Response.json(fixture);
+  });
+  vi.spyOn(console, "error").mockImplementation(() => {});
+
+  return requested;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("extractLinkMetadata", () => {
+  it("takes the title from oEmbed and fills the rest in from the page", async () => {
+    const url = "https://open.spotify.com/track/7tFiyTwD0nx5a1eklYtX2J";
+    serveFixtures({
+      [oembedUrl("spotify", url)]: spotifyTrackOEmbed,
+      [url]: spotifyTrack,
+    });
+
+    // music:album is a link, so there's no album name
+    expect(await extractLinkMetadata(url, OEMBED_API_URL)).toEqual({
+      title: "Bohemian Rhapsody - Remastered 2011",
+      artist: "Queen",
+      album: undefined,
+      duration: 354,
+    });
+  });
+
+  it("doesn't fetch the page when oEmbed names the artist", async () => {
+    const url = "https://audiomack.com/ckay/song/love-nwantiti";
+    const requested = serveFixtures({
+      [oembedUrl("audiomack", url)]: audiomackSongOEmbed,
+      [url]: audiomackSong,
+    });
+
+    expect(await extractLinkMetadata(url, OEMBED_API_URL)).toEqual({
+      title: "Love Nwantiti (Ah Ah Ah)",
+      artist: "CKay",
+    });
+    expect(requested).toEqual([oembedUrl("audiomack", url)]);
+  });
+
+  it("prefers oEmbed to the page's tags", async () => {
+    const url = "https://soundcloud.com/flume/never-be-like-you-feat-kai";
+    serveFixtures({
+      [oembedUrl("soundcloud", url)]: soundcloudTrackOEmbed,
+      [url]: soundcloudTrack,
+    });
+
+    expect(await extractLinkMetadata(url, OEMBED_API_URL)).toEqual({
+      title: "Flume - Never Be Like You feat. Kai",
+      artist: "Flume",
+    });
+  });
+
+  it("falls back to the page when oEmbed fails", async () => {
+    const url = "https://soundcloud.com/flume/never-be-like-you-feat-kai";
+    const requested = serveFixtures({ [url]: soundcloudTrack });
+
+    expect(await extractLinkMetadata(url, OEMBED_API_URL)).toEqual({
+      title: "Never Be Like You (page title)",
+      artist: undefined,
+      album: undefined,
+      duration: 234,
+    });
+    expect(requested).toEqual([oembedUrl("soundcloud", url), url]);
+  });
+
+  it("splits YouTube video titles into artist and title", async () => {
+    const url = "https://www.youtube.com/watch?v=5NV6Rdv1a3I";
+    serveFixtures({ [oembedUrl("youtube", url)]: youtubeVideoOEmbed });
+
+    expect(await extractLinkMetadata(url, OEMBED_API_URL)).toEqual({
+      title: "Get Lucky ft. Pharrell Williams, Nile Rodgers",
+      artist: "Daft Punk",
+    });
+  });
+
+  it("takes the artist from auto-generated YouTube Topic channels", async () => {
+    const url = "https://music.youtube.com/watch?v=wQ0ikH8Dh6o";
+    serveFixtures({ [oembedUrl("youtubeMusic", url)]: youtubeTopicOEmbed });
+
+    expect(await extractLinkMetadata(url, OEMBED_API_URL)).toEqual({
+      title: "Bizarre Love Triangle",
+      artist: "New Order",
+    });
+  });
+
+  it("prefers JSON-LD to OpenGraph tags", async () => {
+    const url = "https://sigurros.bandcamp.com/track/svefn-g-englar";
+    const requested = serveFixtures({ [url]: bandcampTrack });
+
+    expect(await extractLinkMetadata(url, OEMBED_API_URL)).toEqual({
+      title: "Svefn-g-englar",
+      artist: "Sigur Rós",
+      album: "Ágætis byrjun",
+      duration: 604,
+    });
+    // Bandcamp has no oEmbed endpoint
+    expect(requested).toEqual([url]);
+  });
+
+  it("prefers OpenGraph and music tags to the <title>", async () => {
+    const url = "https://anghami.com/song/7654321";
+    serveFixtures({ [url]: anghamiSongTagged });
+
+    expect(await extractLinkMetadata(url, OEMBED_API_URL)).toEqual({
+      title: "Enta Omri",
+      artist: "Umm Kulthum",
+      album: "Enta Omri (Live)",
+      duration: 3580,
+    });
+  });
+
+  it("falls back to the <title> without the platform's name", async () => {
+    const url = "https://anghami.com/song/1234567";
+    serveFixtures({ [url]: anghamiSong });
+
+    expect(await extractLinkMetadata(url, OEMBED_API_URL)).toEqual({
+      title: "Enta Omri – Umm Kulthum",
+      artist: undefined,
+      album: undefined,
+      duration: undefined,
+    });
+  });
+
+  it("adds a scheme to links shared without one", async () => {
+    const url = "https://sigurros.bandcamp.com/track/svefn-g-englar";
+    serveFixtures({ [url]: bandcampTrack });
+
+    expect(
+      await extractLinkMetadata("sigurros.bandcamp.com/track/svefn-g-englar"),
+    ).toMatchObject({ title: "Svefn-g-englar", artist: "Sigur Rós" });
+  });
+
+  it("returns null when nothing names the song", async () => {
+    const url = "https://open.spotify.com/track/7tFiyTwD0nx5a1eklYtX2J";
+    serveFixtures({});
+
+    expect(await extractLinkMetadata(url, OEMBED_API_URL)).toBeNull();
+  });
+});
+
+describe("extractPageDetails", () => {
+  it("reads an album's artist, artwork and tracks from JSON-LD", async () => {
+    const url =
+      "https://boardsofcanada.bandcamp.com/album/music-has-the-right-to-children";
+    serveFixtures({ [url]: bandcampAlbum });
+
+    expect(await extractPageDetails(url, OEMBED_API_URL)).toEqual({
+      title: "Music Has the Right to Children",
+      creator: "Boards of Canada",
+      thumbnail_url: "https://f4.bcbits.com/img/a0987654321_10.jpg",
+      track_count: 17,
+      tracks: [
+        {
+          title: "Wildlife Analysis",
+          artist: undefined,
+          url: "https://boardsofcanada.bandcamp.com/track/wildlife-analysis",
+        },
+        {
+          title: "An Eagle In Your Mind",
+          artist: undefined,
+          url: "https://boardsofcanada.bandcamp.com/track/an-eagle-in-your-mind",
+        },
+        {
+          title: "The Color of the Fire",
+          artist: undefined,
+          url: "https://boardsofcanada.bandcamp.com/track/the-color-of-the-fire",
+        },
+      ],
+    });
+  });
+
+  it("prefers oEmbed's title and artwork to the page's tags", async () => {
+    const url = "https://open.spotify.com/playlist/37i9dQZF1DXcBWIGoYBM5M";
+    serveFixtures({
+      [oembedUrl("spotify", url)]: spotifyPlaylistOEmbed,
+      [url]: spotifyPlaylist,
+    });
+
+    expect(await extractPageDetails(url, OEMBED_API_URL)).toEqual({
+      title: "Today's Top Hits",
+      creator: undefined,
+      thumbnail_url:
+        "https://image-cdn-fa.spotifycdn.com/image/ab67706f00000002b0fe40a6e1692822f5a9d8f1",
+      track_count: 50,
+      tracks: undefined,
+    });
+  });
+
+  it("falls back to the page's tags without oEmbed", async () => {
+    const url = "https://open.spotify.com/playlist/37i9dQZF1DXcBWIGoYBM5M";
+    serveFixtures({ [url]: spotifyPlaylist });
+
+    expect(await extractPageDetails(url, OEMBED_API_URL)).toEqual({
+      title: "Today's Top Hits",
+      creator: undefined,
+      thumbnail_url:
+        "https://i.scdn.co/image/ab67706f00000002b0fe40a6e1692822f5a9d8f1",
+      track_count: 50,
+      tracks: undefined,
+    });
+  });
+});
+
+describe("decodeHtmlEntities", () => {
+  it("decodes named, decimal and hex references", () => {
+    expect(decodeHtmlEntities("Rock &amp; Roll &#8211; &#x27;Live&#x27;")).toBe(
+      "Rock & Roll – 'Live'",
+    );
+    expect(decodeHtmlEntities("&ldquo;Hello&rdquo;&nbsp;&hellip;")).toBe(
+      "“Hello” …",
+    );
+  });
+
+  it("decodes accented letters", () => {
+    expect(
+      decodeHtmlEntities("Bj&ouml;rk, Sigur R&oacute;s, &Aacute;g&aelig;tis"),
+    ).toBe("Björk, Sigur Rós, Ágætis");
+  });
+
+  it("leaves unknown and invalid references alone", () => {
+    expect(decodeHtmlEntities("&bogus; &#0; &#x110000; AT&T")).toBe(
+      "&bogus; &#0; &#x110000; AT&T",
+    );
+  });
+});
@@ -0,0 +1,47 @@
+import { Hono } from "hono";
+import { describe, expect, it } from "vitest";
+import type { Env } from "../src/types";
+import { createOAuthState } from "../src/oauth";
+import { getSession, startSession } from "../src/signin";
+
+const env = { SLACK_SIGNING_SECRET: "signing-secret" } as Env;
+
+const app = new Hono<{ Bindings: Env }>();
+app.get("/dashboard/start", async (c) => {
+  await startSession(c, { user: "U1", name: "Alice", team: "T1" });
+  return c.text("ok");
+});
+app.get("/dashboard", async (c) => c.json(await getSession(c)));
+
+async function sessionFor(cookie: string) {
+  const response = await app.request(
+    "/dashboard",
+    { headers: { Cookie: cookie } },
+    env,
+  );
+  return response.json();
+}
+
+describe("getSession", () => {
+  it("reads back a session started with startSession", async () => {
+    const started = await app.request("/dashboard/start", {}, env);
+    const cookie = started.headers.get("Set-Cookie")?.split(";")[0] ?? "";
+
+    expect(await sessionFor(cookie)).toEqual({
+      user: "U1",
+      name: "Alice",
+      team: "T1",
+    });
+  });
+
+  it("doesn't take an OAuth state for a session", async () => {
+    // As made by /songs playlist connect
+    const state = await createOAuthState(env.SLACK_SIGNING_SECRET, {
+      user: "U1",
+      team: "T1",
+      provider: "spotify",
+    });
+
+    expect(await sessionFor(`songlink_session=${state}`)).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import type { SongLinkResponse } from "../src/types";
+import { linkTypeFromUrl, songLinkSongId } from "../src/songlink";
+
+function songLinkResponse(
+  entityUniqueId: string,
+  entityIds: Record<string, string>,
+): SongLinkResponse {
+  return {
+    pageUrl: "https://song.link/s/1",
+    entityUniqueId,
+    userCountry: "US",
+    linksByPlatform: Object.fromEntries(
+      Object.entries(entityIds).map(([platform, id]) => [
+        platform,
+        { url: `https://example.com/${id}`, entityUniqueId: id },
+      ]),
+    ),
+    entitiesByUniqueId: {},
+  };
+}
+
+describe("songLinkSongId", () => {
+  it("is the same whichever platform a song was shared from", () => {
+    const fromSpotify = songLinkResponse("SPOTIFY_SONG::abc", {
+      spotify: "SPOTIFY_SONG::abc",
+      appleMusic: "ITUNES_SONG::123",
+      youtube: "YOUTUBE_VIDEO::xyz",
+    });
+    const fromSoundCloud = songLinkResponse("SOUNDCLOUD_SONG::9", {
+      soundcloud: "SOUNDCLOUD_SONG::9",
+      youtube: "YOUTUBE_VIDEO::xyz",
+      spotify: "SPOTIFY_SONG::abc",
+    });
+
+    expect(songLinkSongId(fromSpotify)).toBe("SPOTIFY_SONG::abc");
+    expect(songLinkSongId(fromSoundCloud)).toBe("SPOTIFY_SONG::abc");
+  });
+
+  it("falls back to the next platform the song is on", () => {
+    expect(
+      songLinkSongId(
+        songLinkResponse("BANDCAMP_SONG::1", {
+          bandcamp: "BANDCAMP_SONG::1",
+          appleMusic: "ITUNES_SONG::123",
+        }),
+      ),
+    ).toBe("ITUNES_SONG::123");
+    expect(
+      songLinkSongId(
+        songLinkResponse("BANDCAMP_SONG::1", { bandcamp: "BANDCAMP_SONG::1" }),
+      ),
+    ).toBe("BANDCAMP_SONG::1");
+  });
+});
+
+describe("linkTypeFromUrl", () => {
+  it("tells SoundCloud tracks, playlists and artists apart", () => {
+    expect(linkTypeFromUrl("https://soundcloud.com/flume")).toBe("artist");
+    expect(linkTypeFromUrl("https://soundcloud.com/flume/say-it")).toBe(
+      "track",
+    );
+    expect(linkTypeFromUrl("https://soundcloud.com/flume/sets/skin")).toBe(
+      "playlist",
+    );
+  });
+
+  it("takes a SoundCloud artist's own pages for the artist", () => {
+    for (const page of ["tracks", "likes", "albums", "reposts"]) {
+      expect(linkTypeFromUrl(`https://soundcloud.com/flume/${page}`)).toBe(
+        "artist",
+      );
+    }
+    expect(linkTypeFromUrl("https://soundcloud.com/flume/popular-tracks")).toBe(
+      "artist",
+    );
+  });
+});